@@ -1,5 +1,7 @@
-import { readdir, rename, access, constants } from 'fs/promises';
-import { join } from 'path';
+import { readdir, rename, access, constants, mkdir, copyFile, readFile, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { join, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
@@ -7,6 +9,11 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const distDir = join(__dirname, '..', 'dist');
 
+// `--out <dir>` copies only the MediaPipe files, e.g. into an app's public folder
+const outIndex = process.argv.indexOf('--out');
+const assetsOutDir = outIndex !== -1 ? resolve(process.argv[outIndex + 1]) : null;
+const FACE_MESH_FILES = /\.(js|wasm|data|binarypb)$/;
+
 async function fileExists(path) {
   try {
     await access(path, constants.F_OK);
@@ -43,5 +50,32 @@ async function renameFiles() {
   }
 }
 
-renameFiles();
+async function copyMediaPipeAssets(outDir) {
+  try {
+    const require = createRequire(import.meta.url);
+    const sourceDir = dirname(require.resolve('@mediapipe/face_mesh/package.json'));
+    const files = (await readdir(sourceDir)).filter((file) => FACE_MESH_FILES.test(file) && file !== 'face_mesh.js');
+
+    await mkdir(outDir, { recursive: true });
+    const integrity = {};
+    for (const file of files) {
+      await copyFile(join(sourceDir, file), join(outDir, file));
+      const digest = createHash('sha256').update(await readFile(join(sourceDir, file))).digest('base64');
+      integrity[file] = `sha256-${digest}`;
+    }
+    // Pin these in FaceMeshAssetOptions.integrity; don't fetch them at runtime
+    await writeFile(join(outDir, 'integrity.json'), `${JSON.stringify(integrity, null, 2)}\n`);
+    console.log(`Copied ${files.length} MediaPipe face_mesh files to ${outDir}`);
+  } catch (error) {
+    console.error('Error copying MediaPipe assets:', error);
+    process.exit(1);
+  }
+}
+
+if (assetsOutDir) {
+  await copyMediaPipeAssets(assetsOutDir);
+} else {
+  await renameFiles();
+  await copyMediaPipeAssets(join(distDir, 'mediapipe', 'face_mesh'));
+}
 
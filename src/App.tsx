@@ -7,8 +7,9 @@ function App() {
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<Navigate to="/qr" replace />} />
-        <Route path="/qr" element={<QRCodePage />} />
-        <Route path="/mobileroute" element={<MobileRoute />} />
+        {/* The hosted pages have no session to mint handoff tokens from, so they keep the legacy query-string links */}
+        <Route path="/qr" element={<QRCodePage handoffMode="query" />} />
+        <Route path="/mobileroute" element={<MobileRoute allowQueryServerKey />} />
       </Routes>
     </BrowserRouter>
   );
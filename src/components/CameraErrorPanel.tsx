@@ -0,0 +1,37 @@
+import { CameraErrorKind, cameraPermissionHelp } from '../services/cameraManager';
+import type { CameraAccessError } from '../services/kycErrors';
+
+interface CameraErrorPanelProps {
+  error: CameraAccessError;
+  onRetry?: () => void;
+}
+
+export function CameraErrorPanel({ error, onRetry }: CameraErrorPanelProps) {
+  const help = error.kind === CameraErrorKind.PERMISSION_DENIED ? cameraPermissionHelp() : null;
+
+  return (
+    <div className="bg-[#1f2937] text-[#e5e7eb] py-3 px-4 rounded-xl text-sm border border-[#374151] text-left">
+      <p className="m-0 font-semibold text-[#fca5a5]">Camera unavailable</p>
+      <p className="mt-1 mb-0">{error.message}</p>
+      {help && (
+        <>
+          <p className="mt-3 mb-1 text-[#9ca3af]">To turn the camera back on in {help.browser}:</p>
+          <ol className="m-0 pl-5 grid gap-1">
+            {help.steps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </>
+      )}
+      {onRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="mt-3 bg-transparent border-none text-[#93c5fd] text-sm cursor-pointer hover:underline p-0"
+        >
+          Try again
+        </button>
+      )}
+    </div>
+  );
+}
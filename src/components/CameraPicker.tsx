@@ -0,0 +1,33 @@
+import type { CameraDevice } from '../services/cameraManager';
+
+interface CameraPickerProps {
+  cameras: CameraDevice[];
+  /** Device id of the camera in use */
+  value: string | null;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user switch cameras; renders nothing when there is only one
+ */
+export function CameraPicker({ cameras, value, onChange, disabled }: CameraPickerProps) {
+  if (cameras.length < 2) return null;
+
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Camera"
+      className="w-full py-2 px-3 rounded-lg bg-[#111827] text-[#e5e7eb] border border-[#374151] text-sm"
+    >
+      {value === null && <option value="">Choose a camera</option>}
+      {cameras.map((camera, index) => (
+        <option key={camera.deviceId} value={camera.deviceId}>
+          {camera.label || `Camera ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,9 +1,20 @@
-import React, { useState } from 'react';
-import { KycProvider } from '../contexts/KycContext';
+import React, { useRef, useState } from 'react';
+import { KycProvider, type KycLifecycleCallbacks, type KycResult } from '../contexts/KycContext';
 import MobileRoute from '../pages/MobileRoute';
 import QRCodePage from '../pages/QRCodePage';
+import type { HandoffMode } from '../features/handoff/types';
+import type { KycApiService } from '../services/kycApiService';
+import type { SessionTransport } from '../services/sessionTransport';
+import type { FaceMeshAssetOptions } from '../services/mediapipeAssets';
+import type { DocumentTypeDefinition } from '../services/documentTypes';
+import type { MrzTextRecognizer } from '../services/mrz';
+import type { BarcodeDecoder } from '../services/aamva';
+import type { ImageProcessingConfig } from '../services/imageProcessing';
+import type { DeviceIntegrityPolicy } from '../services/deviceIntegrity';
+import type { LivenessFallbackPolicy } from '../services/livenessFallback';
+import type { VideoSelfieOptions } from '../services/videoSelfie';
 
-export interface KycFlowProps {
+export interface KycFlowProps extends KycLifecycleCallbacks {
   apiBaseUrl: string;
   sessionId: string;
   serverKey: string;
@@ -11,6 +22,35 @@ export interface KycFlowProps {
   startAtQr?: boolean;
   onClose?: () => void;
   mobileBaseUrl?: string;
+  sessionTransport?: (apiService: KycApiService) => SessionTransport;
+  handoffMode?: HandoffMode;
+  /** Where the face detection model is loaded from; defaults to jsDelivr */
+  faceMeshAssets?: FaceMeshAssetOptions;
+  /** Documents the user can choose from; a list sent by the server takes precedence */
+  documentTypes?: DocumentTypeDefinition[];
+  /** OCR used to read passport and ID card MRZs; defaults to the browser's text detection where available */
+  mrzRecognizer?: MrzTextRecognizer;
+  /** Decoder for the PDF417 barcode on driving licences; defaults to the browser's barcode detection where available */
+  barcodeDecoder?: BarcodeDecoder;
+  /** Resize/compress overrides for uploaded face and document images; `false` uploads them as captured */
+  imageProcessing?: ImageProcessingConfig | false;
+  /** `block` stops the face scan when the camera looks virtual or injected; `report` (default) only uploads the findings */
+  deviceIntegrity?: DeviceIntegrityPolicy;
+  /**
+   * When the liveness model can't run: `allow` (default) accepts a photo flagged as having no liveness,
+   * `video` asks for a recorded video selfie, `block` stops the face scan
+   */
+  livenessFallback?: LivenessFallbackPolicy;
+  /**
+   * When the camera can't be opened, let the user submit a selfie photo (or, under `video`, a video)
+   * from the camera app or gallery. Off by default: a file carries no proof it was just taken.
+   */
+  allowSelfieUpload?: boolean;
+  /**
+   * Record the liveness check with MediaRecorder and upload it with the face scan as `face_scan_video`;
+   * `true` records up to 20 s at 500 kbps. Off by default.
+   */
+  recordLiveness?: boolean | VideoSelfieOptions;
 }
 
 type KycFlowView = 'qr' | 'mobileroute';
@@ -23,14 +63,41 @@ export const KycFlow: React.FC<KycFlowProps> = ({
   startAtQr = true,
   onClose,
   mobileBaseUrl = 'https://astra-sdk-rebuild.vercel.app',
+  onStepComplete,
+  onComplete,
+  onError,
+  onCancel,
+  sessionTransport,
+  handoffMode = 'token',
+  faceMeshAssets,
+  documentTypes,
+  mrzRecognizer,
+  barcodeDecoder,
+  imageProcessing,
+  deviceIntegrity,
+  livenessFallback,
+  allowSelfieUpload,
+  recordLiveness,
 }) => {
   const [currentView, setCurrentView] = useState<KycFlowView>(startAtQr ? 'qr' : 'mobileroute');
+  const completedRef = useRef(false);
 
   const handleNavigate = (view: KycFlowView) => {
     setCurrentView(view);
   };
 
+  const handleComplete = (result: KycResult) => {
+    completedRef.current = true;
+    if (onComplete) {
+      onComplete(result);
+    }
+  };
+
   const handleClose = () => {
+    // Closing before the session finished counts as a cancellation
+    if (!completedRef.current && onCancel) {
+      onCancel();
+    }
     if (onClose) {
       onClose();
     }
@@ -42,6 +109,10 @@ export const KycFlow: React.FC<KycFlowProps> = ({
       sessionId={sessionId}
       serverKey={serverKey}
       deviceType={deviceType}
+      imageProcessing={imageProcessing}
+      onStepComplete={onStepComplete}
+      onComplete={handleComplete}
+      onError={onError}
     >
       {currentView === 'qr' ? (
         <QRCodePage 
@@ -51,9 +122,11 @@ export const KycFlow: React.FC<KycFlowProps> = ({
           sessionId={sessionId}
           apiBaseUrl={apiBaseUrl}
           serverKey={serverKey}
+          sessionTransport={sessionTransport}
+          handoffMode={handoffMode}
         />
       ) : (
-        <MobileRoute onClose={handleClose} onNavigate={handleNavigate} />
+        <MobileRoute onClose={handleClose} onNavigate={handleNavigate} faceMeshAssets={faceMeshAssets} documentTypes={documentTypes} mrzRecognizer={mrzRecognizer} barcodeDecoder={barcodeDecoder} deviceIntegrity={deviceIntegrity} livenessFallback={livenessFallback} allowSelfieUpload={allowSelfieUpload} recordLiveness={recordLiveness} />
       )}
     </KycProvider>
   );
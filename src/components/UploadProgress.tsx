@@ -0,0 +1,36 @@
+interface UploadProgressProps {
+  /** Percent sent */
+  progress: number;
+  /** Waiting for the network */
+  queued: boolean;
+  onCancel?: () => void;
+}
+
+export function UploadProgress({ progress, queued, onCancel }: UploadProgressProps) {
+  return (
+    <div className="bg-[#1f2937] text-[#e5e7eb] py-3 px-4 rounded-xl text-sm border border-[#374151] text-left">
+      <div className="flex items-center justify-between gap-3">
+        <span>
+          {queued
+            ? "You're offline. The upload will continue once you're back online."
+            : `Uploading... ${progress}%`}
+        </span>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-transparent border-none text-[#93c5fd] text-sm cursor-pointer hover:underline p-0"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="mt-2 h-1.5 rounded-full bg-[#374151] overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-[width] duration-200 ${queued ? 'bg-[#f59e0b]' : 'bg-[#3b82f6]'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { KycFlow } from './KycFlow';
 export type { KycFlowProps } from './KycFlow';
+export type { KycLifecycleCallbacks, KycStepCompleteEvent, KycResult } from '../contexts/KycContext';
 
@@ -1,16 +1,104 @@
-import React, { createContext, useContext, ReactNode } from 'react';
-import { KycApiService, type KycApiConfig } from '../services/kycApiService';
+import React, { createContext, useContext, type ReactNode } from 'react';
+import {
+  DOCUMENT_SIDE_FIELDS,
+  KycApiService,
+  type KycApiConfig,
+  type DocumentSide,
+  type ResumedUpload,
+  type SessionStatusResponse,
+  type FaceScanResponse,
+  type DocumentUploadResponse,
+  type DocumentImages,
+  type DocumentCaptureMetadata,
+  type FaceCaptureMetadata,
+} from '../services/kycApiService';
+import type { KycError } from '../services/kycErrors';
+import type { ImageProcessingConfig } from '../services/imageProcessing';
+
+export type KycStepCompleteEvent =
+  | { step: 'face_scan'; response: FaceScanResponse; image: Blob; metadata?: FaceCaptureMetadata }
+  | { step: 'document_upload'; response: DocumentUploadResponse; docType: string; file: Blob; images: DocumentImages; metadata?: DocumentCaptureMetadata };
+
+export interface KycResult {
+  sessionId: string;
+  session: SessionStatusResponse['data'];
+  faceScan?: FaceScanResponse;
+  document?: DocumentUploadResponse;
+  completedAt: string;
+}
+
+export interface KycLifecycleCallbacks {
+  onStepComplete?: (event: KycStepCompleteEvent) => void;
+  onComplete?: (result: KycResult) => void;
+  onError?: (error: KycError) => void;
+  onCancel?: () => void;
+}
+
+interface KycEvents {
+  stepComplete: (event: KycStepCompleteEvent) => void;
+  complete: (session: SessionStatusResponse['data']) => void;
+  error: (error: KycError) => void;
+}
 
 interface KycContextValue {
   apiService: KycApiService | null;
   setApiConfig: (config: KycApiConfig) => void;
+  events: KycEvents;
+  /** True while uploads queued by an earlier visit are being sent; the session status may still change */
+  resumingUploads: boolean;
 }
 
 const KycContext = createContext<KycContextValue>({
   apiService: null,
   setApiConfig: () => {},
+  resumingUploads: false,
+  events: {
+    stepComplete: () => {},
+    complete: () => {},
+    error: () => {},
+  },
 });
 
+/**
+ * Rebuild the step event of a queued upload from its form fields
+ */
+function resumedStepEvent({ upload, response }: ResumedUpload): KycStepCompleteEvent | null {
+  const blob = (name: string) => {
+    const field = upload.fields.find((f) => f.name === name);
+    return field && 'fileName' in field ? field.value : undefined;
+  };
+  const text = (name: string) => {
+    const field = upload.fields.find((f) => f.name === name);
+    return field && !('fileName' in field) ? field.value : undefined;
+  };
+  let metadata: FaceCaptureMetadata & DocumentCaptureMetadata | undefined;
+  try {
+    const raw = text('metadata');
+    metadata = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    metadata = undefined;
+  }
+
+  if (upload.endpoint === 'face') {
+    const image = blob('face_scan_img');
+    return image ? { step: 'face_scan', response: response as FaceScanResponse, image, metadata } : null;
+  }
+  const images: DocumentImages = {};
+  for (const side of Object.keys(DOCUMENT_SIDE_FIELDS) as DocumentSide[]) {
+    const image = blob(DOCUMENT_SIDE_FIELDS[side]);
+    if (image) images[side] = image;
+  }
+  if (!images.front) return null;
+  return {
+    step: 'document_upload',
+    response: response as DocumentUploadResponse,
+    docType: text('docType') ?? '',
+    file: images.front,
+    images,
+    metadata,
+  };
+}
+
 export const useKycContext = () => {
   const context = useContext(KycContext);
   if (!context) {
@@ -19,12 +107,15 @@ export const useKycContext = () => {
   return context;
 };
 
-interface KycProviderProps {
+interface KycProviderProps extends Omit<KycLifecycleCallbacks, 'onCancel'> {
   children: ReactNode;
   apiBaseUrl: string;
   sessionId: string;
-  serverKey: string;
+  serverKey?: string;
+  accessToken?: string;
   deviceType?: string;
+  /** Resize/compress overrides for uploaded images, read when the service is created */
+  imageProcessing?: ImageProcessingConfig | false;
 }
 
 export const KycProvider: React.FC<KycProviderProps> = ({
@@ -32,21 +123,48 @@ export const KycProvider: React.FC<KycProviderProps> = ({
   apiBaseUrl,
   sessionId,
   serverKey,
+  accessToken,
   deviceType,
+  imageProcessing,
+  onStepComplete,
+  onComplete,
+  onError,
 }) => {
   const [apiService, setApiService] = React.useState<KycApiService | null>(null);
+  // Resume passes in flight, and the service whose first pass has finished
+  const [resumePasses, setResumePasses] = React.useState(0);
+  const [resumedService, setResumedService] = React.useState<KycApiService | null>(null);
+  const resumingUploads = apiService !== null && (resumedService !== apiService || resumePasses > 0);
+
+  // Latest callbacks and collected step responses, kept in refs so host
+  // re-renders don't recreate the event emitters
+  const callbacksRef = React.useRef<KycLifecycleCallbacks>({});
+  const resultRef = React.useRef<Pick<KycResult, 'faceScan' | 'document'>>({});
+  const completedRef = React.useRef(false);
+  // Usually an inline object; a new one must not recreate the service
+  const imageProcessingRef = React.useRef(imageProcessing);
+
+  React.useEffect(() => {
+    callbacksRef.current = { onStepComplete, onComplete, onError };
+  }, [onStepComplete, onComplete, onError]);
+
+  React.useEffect(() => {
+    imageProcessingRef.current = imageProcessing;
+  }, [imageProcessing]);
 
   React.useEffect(() => {
-    if (apiBaseUrl && sessionId && serverKey) {
+    if (apiBaseUrl && sessionId && (serverKey || accessToken)) {
       const service = new KycApiService({
         apiBaseUrl,
         sessionId,
         serverKey,
+        accessToken,
         deviceType,
+        imageProcessing: imageProcessingRef.current,
       });
       setApiService(service);
     }
-  }, [apiBaseUrl, sessionId, serverKey, deviceType]);
+  }, [apiBaseUrl, sessionId, serverKey, accessToken, deviceType]);
 
   const setApiConfig = React.useCallback((config: KycApiConfig) => {
     if (apiService) {
@@ -57,10 +175,59 @@ export const KycProvider: React.FC<KycProviderProps> = ({
     }
   }, [apiService]);
 
+  const events = React.useMemo<KycEvents>(() => ({
+    stepComplete: (event) => {
+      if (event.step === 'face_scan') {
+        resultRef.current.faceScan = event.response;
+      } else {
+        resultRef.current.document = event.response;
+      }
+      callbacksRef.current.onStepComplete?.(event);
+    },
+    complete: (session) => {
+      // Both modals can observe completion; report it once
+      if (completedRef.current) return;
+      completedRef.current = true;
+      callbacksRef.current.onComplete?.({
+        sessionId: session.session_id || sessionId,
+        session,
+        ...resultRef.current,
+        completedAt: new Date().toISOString(),
+      });
+    },
+    error: (error) => {
+      callbacksRef.current.onError?.(error);
+    },
+  }), [sessionId]);
+
+  // Send uploads left queued by an earlier visit, now and whenever the device comes back online,
+  // and report each one that goes through as a completed step
+  React.useEffect(() => {
+    if (!apiService) return;
+    const unsubscribe = apiService.onUploadResumed((resumed) => {
+      const event = resumedStepEvent(resumed);
+      if (event) events.stepComplete(event);
+    });
+    const resume = () => {
+      setResumePasses((passes) => passes + 1);
+      apiService.resumeQueuedUploads()
+        .catch((error) => console.error('Could not resume queued uploads:', error))
+        .finally(() => {
+          setResumePasses((passes) => passes - 1);
+          setResumedService(apiService);
+        });
+    };
+    resume();
+    window.addEventListener('online', resume);
+    return () => {
+      window.removeEventListener('online', resume);
+      unsubscribe();
+    };
+  }, [apiService, events]);
+
   return (
-    <KycContext.Provider value={{ apiService, setApiConfig }}>
+    <KycContext.Provider value={{ apiService, setApiConfig, events, resumingUploads }}>
       {children}
     </KycContext.Provider>
   );
 };
-
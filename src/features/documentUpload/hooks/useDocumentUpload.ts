@@ -1,81 +1,114 @@
 import { useState, useRef, useEffect } from 'react';
-import type { DocumentUploadCallbacks } from '../types';
+import { KycAbortedError, KycErrorCode, isKycError } from '../../../services/kycErrors';
+import { CameraManager, toCameraError } from '../../../services/cameraManager';
+import { detectDocumentInFrame, flattenDocument } from '../../../services/documentDetection';
+import { DocumentAutoCapture, type DocumentAutoCaptureOptions } from '../../../services/documentAutoCapture';
+import { DEFAULT_DOCUMENT_TYPES, isAcceptedFile, type DocumentTypeDefinition } from '../../../services/documentTypes';
+import { readMrz, type MrzResult, type MrzTextRecognizer } from '../../../services/mrz';
+import { readAamvaBarcode, type AamvaParseResult, type BarcodeDecoder } from '../../../services/aamva';
+import type { DocumentCaptureMetadata, DocumentImages, DocumentSide, UploadOptions } from '../../../services/kycApiService';
+import type { DocumentUploadCallbacks, DocumentType } from '../types';
 import type { DocumentUploadState } from '../types';
 
+// How often the live outline is refreshed while scanning
+const DETECTION_INTERVAL_MS = 150;
+// Portrait resolutions to ask the rear camera for, best first
+const DOC_CAMERA_RESOLUTIONS = [
+  { width: 1280, height: 1920 },
+  { width: 720, height: 1280 },
+];
+
 export interface DocumentUploadHookCallbacks extends DocumentUploadCallbacks {
-  onDocumentUpload?: (blob: Blob, docType: string) => Promise<void>;
+  /** `upload` carries the abort signal and progress listeners to pass on to `uploadDocument` */
+  onDocumentUpload?: (images: DocumentImages, docType: string, metadata: DocumentCaptureMetadata | undefined, upload: UploadOptions) => Promise<void>;
+}
+
+async function decodeImage(blob: Blob): Promise<HTMLCanvasElement | null> {
+  if (!blob.type.startsWith('image/')) return null;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+  } catch {
+    return null;
+  }
+}
+
+export interface DocumentUploadOptions {
+  /** Documents the user can choose from; defaults to `DEFAULT_DOCUMENT_TYPES` */
+  documentTypes?: DocumentTypeDefinition[];
+  /** Capture automatically once the document is steady and sharp; `false` leaves only the capture button */
+  autoCapture?: DocumentAutoCaptureOptions | false;
+  /** OCR used to read the MRZ; without it the browser's text detection is used where available */
+  mrzRecognizer?: MrzTextRecognizer;
+  /** PDF417 decoder for licence barcodes; without it the browser's barcode detection is used where available */
+  barcodeDecoder?: BarcodeDecoder;
 }
 
-export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
+interface DocumentCheckResults {
+  mrz?: MrzResult;
+  barcode?: AamvaParseResult;
+}
+
+export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks, options: DocumentUploadOptions = {}) {
+  const [autoCapture] = useState(() => (options.autoCapture === false ? null : new DocumentAutoCapture(options.autoCapture)));
+  const [camera] = useState(() => new CameraManager({ facing: 'environment', resolutions: DOC_CAMERA_RESOLUTIONS }));
   const [state, setState] = useState<DocumentUploadState>({
-    docType: 'CNIC',
+    docType: (options.documentTypes?.length ? options.documentTypes : DEFAULT_DOCUMENT_TYPES)[0].id,
+    docSide: 'front',
+    sidePreviews: {},
     isDocScanMode: false,
     docPreviewUrl: null,
     docFileName: '',
     loading: false,
+    documentOutline: null,
+    scanGuidance: null,
+    autoCaptureCountdown: null,
+    mrzStatus: null,
+    barcodeStatus: null,
+    uploadProgress: null,
+    uploadQueued: false,
+    cameraError: null,
+    cameras: [],
+    cameraId: null,
   });
 
+  const documentTypes = options.documentTypes?.length ? options.documentTypes : DEFAULT_DOCUMENT_TYPES;
+  // The list can change underneath (e.g. once the server sends its own), so fall back to its first entry
+  const documentType = documentTypes.find((type) => type.id === state.docType) ?? documentTypes[0];
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const docVideoRef = useRef<HTMLVideoElement>(null);
-  const docStreamRef = useRef<MediaStream | null>(null);
   const docPendingBlobRef = useRef<Blob | null>(null);
+  const docImagesRef = useRef<DocumentImages>({});
+  const captureRef = useRef<(() => Promise<void>) | null>(null);
+  const countdownDeadlineRef = useRef<number | null>(null);
+  const checkResultsRef = useRef<DocumentCheckResults>({});
+  const checkRunRef = useRef(0);
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
-  const getRearStream = async (): Promise<MediaStream> => {
-    const attempts: MediaStreamConstraints[] = [
-      { video: { facingMode: { exact: 'environment' }, width: { ideal: 1280 }, height: { ideal: 1920 } }, audio: false } as MediaStreamConstraints,
-      { video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 1920 } }, audio: false } as unknown as MediaStreamConstraints,
-      { video: { facingMode: { exact: 'environment' }, width: { ideal: 720 }, height: { ideal: 1280 } }, audio: false } as MediaStreamConstraints,
-      { video: { facingMode: 'environment', width: { ideal: 720 }, height: { ideal: 1280 } }, audio: false } as unknown as MediaStreamConstraints,
-    ];
-
-    for (const c of attempts) {
-      try { return await navigator.mediaDevices.getUserMedia(c); } catch { /* continue */ }
-    }
-
-    let temp: MediaStream | null = null;
-    try {
-      temp = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
-    } catch (e) {
-      throw e;
-    } finally {
-      try { temp?.getTracks().forEach(t => t.stop()); } catch {}
-    }
-
-    const devices = await navigator.mediaDevices.enumerateDevices();
-    const videoInputs = devices.filter(d => d.kind === 'videoinput');
-    const rear = videoInputs.find(d => /back|rear|environment/i.test(d.label));
-    const chosen = rear || videoInputs.find(d => !/front|user|face/i.test(d.label)) || videoInputs[0];
-    if (!chosen) throw new Error('No video input devices found');
-
-    const byDeviceAttempts: MediaStreamConstraints[] = [
-      { video: { deviceId: { exact: chosen.deviceId }, width: { ideal: 1280 }, height: { ideal: 1920 } }, audio: false },
-      { video: { deviceId: { exact: chosen.deviceId }, width: { ideal: 720 }, height: { ideal: 1280 } }, audio: false },
-      { video: { deviceId: { exact: chosen.deviceId } }, audio: false } as MediaStreamConstraints,
-    ];
-    for (const c of byDeviceAttempts) {
-      try { return await navigator.mediaDevices.getUserMedia(c); } catch { /* continue */ }
-    }
-
-    return await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
-  };
-
-  const startDocCamera = async () => {
+  const startDocCamera = async (deviceId?: string) => {
     try {
-      if (docStreamRef.current) {
-        try { docStreamRef.current.getTracks().forEach(t => t.stop()); } catch {}
-        docStreamRef.current = null;
-      }
-      const stream = await getRearStream();
+      const stream = await camera.start(deviceId);
       if (docVideoRef.current) {
         docVideoRef.current.srcObject = stream;
         await docVideoRef.current.play().catch(() => {});
       }
-      docStreamRef.current = stream;
-    } catch (e: any) {
-      console.error('Could not start document camera:', e);
-      setState(prev => ({ ...prev, isDocScanMode: false }));
+      // Labels are only listed once permission has been granted
+      const cameras = await camera.listCameras().catch(() => []);
+      setState(prev => ({ ...prev, cameraError: null, cameras, cameraId: camera.deviceId }));
+    } catch (e) {
+      // A newer start or the scan closing took over
+      if (e instanceof KycAbortedError) return;
+      const error = toCameraError(e);
+      console.error('Could not start document camera:', error);
+      setState(prev => ({ ...prev, isDocScanMode: false, cameraError: error }));
       if (callbacks?.onError) {
-        callbacks.onError(e);
+        callbacks.onError(error);
       }
     }
   };
@@ -84,11 +117,18 @@ export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
     if (state.loading) return;
     const file = event.target.files?.[0];
     if (!file) return;
+    if (!isAcceptedFile(file, documentType.accept)) {
+      if (callbacks?.onError) {
+        callbacks.onError(new Error(`This file type is not accepted for ${documentType.label}`));
+      }
+      return;
+    }
     setState(prev => ({ ...prev, docFileName: file.name || '' }));
     try {
       const objectUrl = URL.createObjectURL(file);
-      setState(prev => ({ ...prev, docPreviewUrl: objectUrl }));
+      setState(prev => ({ ...prev, docPreviewUrl: objectUrl, mrzStatus: null, barcodeStatus: null }));
       docPendingBlobRef.current = file;
+      checkSide(file, state.docSide);
     } catch (err: any) {
       console.error('Could not preview document:', err);
       if (callbacks?.onError) {
@@ -97,41 +137,164 @@ export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
     }
   };
 
+  /**
+   * Drop the check results of one side, or of every side
+   */
+  const resetChecks = (side?: DocumentSide) => {
+    checkRunRef.current++;
+    if (!side || documentType.mrz?.side === side) delete checkResultsRef.current.mrz;
+    if (!side || documentType.barcode?.side === side) delete checkResultsRef.current.barcode;
+  };
+
+  /**
+   * Read the MRZ and barcode when the previewed side carries them. Results of
+   * an older preview are dropped.
+   */
+  const checkSide = async (image: Blob | HTMLCanvasElement, side: DocumentSide) => {
+    const mrzSpec = documentType.mrz?.side === side ? documentType.mrz : null;
+    const barcodeSpec = documentType.barcode?.side === side ? documentType.barcode : null;
+    if (!mrzSpec && !barcodeSpec) return;
+    resetChecks(side);
+    const run = checkRunRef.current;
+    setState(prev => ({
+      ...prev,
+      mrzStatus: mrzSpec ? 'checking' : null,
+      barcodeStatus: barcodeSpec ? 'checking' : null,
+    }));
+
+    const canvas = image instanceof Blob ? await decodeImage(image) : image;
+    const unavailable = { status: 'unavailable' as const };
+    const [mrz, barcode] = await Promise.all([
+      mrzSpec && (canvas ? readMrz(canvas, { recognizer: options.mrzRecognizer, format: mrzSpec.format }) : unavailable),
+      barcodeSpec && (canvas ? readAamvaBarcode(canvas, { decoder: options.barcodeDecoder }) : unavailable),
+    ]);
+    if (run !== checkRunRef.current) return;
+    if (mrz && 'mrz' in mrz) checkResultsRef.current.mrz = mrz.mrz;
+    if (barcode && 'result' in barcode) checkResultsRef.current.barcode = barcode.result;
+    setState(prev => ({ ...prev, mrzStatus: mrz ? mrz.status : null, barcodeStatus: barcode ? barcode.status : null }));
+  };
+
+  // Without a readable, valid MRZ or barcode the side has to be retaken. When
+  // no decoder is available the check is skipped rather than blocking everyone.
+  const isBlocking = (status: DocumentUploadState['mrzStatus']) =>
+    status === 'checking' || status === 'invalid' || status === 'unreadable';
+  const mrzBlocked = isBlocking(state.mrzStatus);
+  const barcodeBlocked = isBlocking(state.barcodeStatus);
+
+  /**
+   * Start over, e.g. after switching to a document type with other sides
+   */
+  const setDocType = (docType: DocumentType) => {
+    docImagesRef.current = {};
+    docPendingBlobRef.current = null;
+    resetChecks();
+    setState(prev => ({
+      ...prev,
+      docType,
+      docSide: (documentTypes.find((type) => type.id === docType) ?? documentType).sides[0],
+      sidePreviews: {},
+      docPreviewUrl: null,
+      docFileName: '',
+      mrzStatus: null,
+      barcodeStatus: null,
+    }));
+  };
+
+  /**
+   * Drop an accepted side and capture it again
+   */
+  const retakeSide = (side: DocumentSide) => {
+    if (state.loading) return;
+    delete docImagesRef.current[side];
+    docPendingBlobRef.current = null;
+    resetChecks(side);
+    setState(prev => {
+      const sidePreviews = { ...prev.sidePreviews };
+      delete sidePreviews[side];
+      return { ...prev, docSide: side, sidePreviews, docPreviewUrl: null, docFileName: '' };
+    });
+  };
+
   const handleConfirmDocumentUpload = async () => {
-    if (state.loading || !docPendingBlobRef.current) return;
-    setState(prev => ({ ...prev, loading: true }));
+    if (state.loading || !docPendingBlobRef.current || !state.docPreviewUrl || mrzBlocked || barcodeBlocked) return;
+
+    // Accept the previewed side; submit only once every required side is in
+    const side = state.docSide;
+    const images: DocumentImages = { ...docImagesRef.current, [side]: docPendingBlobRef.current };
+    const sidePreviews = { ...state.sidePreviews, [side]: state.docPreviewUrl };
+    docImagesRef.current = images;
+    const nextSide = documentType.sides.find((s) => !images[s]);
+    if (nextSide) {
+      docPendingBlobRef.current = null;
+      setState(prev => ({ ...prev, docSide: nextSide, sidePreviews, docPreviewUrl: null, docFileName: '', mrzStatus: null, barcodeStatus: null }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, sidePreviews, loading: true, mrzStatus: null, barcodeStatus: null, uploadProgress: 0, uploadQueued: false }));
+    const { mrz, barcode } = checkResultsRef.current;
+    const metadata: DocumentCaptureMetadata | undefined = mrz || barcode
+      ? {
+          ...(mrz ? { mrz: { fields: mrz.fields, checks: mrz.checks, valid: mrz.valid } } : {}),
+          ...(barcode ? { barcode: { format: 'pdf417' as const, fields: barcode.license, valid: barcode.valid } } : {}),
+        }
+      : undefined;
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    const upload: UploadOptions = {
+      signal: controller.signal,
+      onProgress: ({ loaded, total }) => {
+        if (total > 0) setState(prev => ({ ...prev, uploadProgress: Math.round((loaded / total) * 100), uploadQueued: false }));
+      },
+      onQueued: () => setState(prev => ({ ...prev, uploadQueued: true })),
+    };
     try {
-      const file = docPendingBlobRef.current as File;
-      
       // Upload document if callback provided
       if (callbacks?.onDocumentUpload) {
         try {
-          await callbacks.onDocumentUpload(file, state.docType);
+          await callbacks.onDocumentUpload(images, documentType.id, metadata, upload);
         } catch (uploadError: any) {
+          if (isKycError(uploadError)) throw uploadError;
           throw new Error(uploadError.message || 'Failed to upload document');
         }
       }
       
       if (callbacks?.onUpload) {
-        callbacks.onUpload(file, state.docType);
+        callbacks.onUpload(images.front as File, documentType.id, images);
       }
       
+      docImagesRef.current = {};
+      docPendingBlobRef.current = null;
+      resetChecks();
       setState(prev => ({
         ...prev,
+        docSide: documentType.sides[0],
+        sidePreviews: {},
         docPreviewUrl: null,
         docFileName: '',
         loading: false,
+        uploadProgress: null,
+        uploadQueued: false,
       }));
-      docPendingBlobRef.current = null;
     } catch (err: any) {
+      // Keep the accepted sides and the previewed one so the user can submit again or retake a side
+      setState(prev => ({ ...prev, loading: false, uploadProgress: null, uploadQueued: false }));
+      if (isKycError(err, KycErrorCode.ABORTED)) return;
       console.error('Document upload failed:', err);
-      setState(prev => ({ ...prev, loading: false }));
       if (callbacks?.onError) {
         callbacks.onError(err);
       }
+    } finally {
+      if (uploadAbortRef.current === controller) uploadAbortRef.current = null;
     }
   };
 
+  /**
+   * Stop the upload in progress, or waiting for the network
+   */
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
   const handleManualCapture = async () => {
     if (!docVideoRef.current || state.loading) return;
     
@@ -151,44 +314,44 @@ export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
       
       // Draw video frame to canvas
       ctx.drawImage(video, 0, 0, width, height);
+
+      // Crop and flatten the document; keep the full frame when no outline is found
+      const detection = detectDocumentInFrame(canvas, width, height);
+      const output = detection
+        ? flattenDocument(canvas, detection.corners, documentType.aspectRatio)
+        : canvas;
       
       // Convert to blob
       const blob = await new Promise<Blob>((resolve) => {
-        canvas.toBlob((blob: Blob | null) => {
+        output.toBlob((blob: Blob | null) => {
           resolve(blob || new Blob());
         }, 'image/jpeg', 0.92);
       });
       
-      const file = new File([blob], 'document.jpg', { type: 'image/jpeg' });
-      
-      // Upload document if callback provided
-      if (callbacks?.onDocumentUpload) {
-        try {
-          await callbacks.onDocumentUpload(file, state.docType);
-        } catch (uploadError: any) {
-          throw new Error(uploadError.message || 'Failed to upload document');
-        }
-      }
+      const file = new File([blob], `document-${state.docSide}.jpg`, { type: 'image/jpeg' });
       
-      // Create preview URL
+      // Create preview URL; the side is uploaded with the others once confirmed
       const objectUrl = URL.createObjectURL(file);
       setState(prev => ({
         ...prev,
         docPreviewUrl: objectUrl,
         isDocScanMode: false,
         loading: false,
+        documentOutline: null,
+        scanGuidance: null,
+        autoCaptureCountdown: null,
+        mrzStatus: null,
+        barcodeStatus: null,
       }));
       
       docPendingBlobRef.current = file;
+      checkSide(output, state.docSide);
       
       // Stop camera
-      if (docStreamRef.current) {
-        docStreamRef.current.getTracks().forEach((t) => t.stop());
-        docStreamRef.current = null;
-      }
+      camera.stop();
       
       if (callbacks?.onScan) {
-        callbacks.onScan(file, state.docType);
+        callbacks.onScan(file, documentType.id, state.docSide);
       }
     } catch (err: any) {
       console.error('Capture failed:', err);
@@ -205,13 +368,63 @@ export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
     }
     
     return () => {
-      if (docStreamRef.current) {
-        docStreamRef.current.getTracks().forEach((t) => t.stop());
-        docStreamRef.current = null;
-      }
+      camera.stop();
     };
   }, [state.isDocScanMode]);
 
+  useEffect(() => {
+    captureRef.current = handleManualCapture;
+  });
+
+  // Track the document outline in the live preview and run the auto-capture countdown
+  useEffect(() => {
+    if (!state.isDocScanMode) return;
+
+    const intervalId = window.setInterval(() => {
+      const video = docVideoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      const detection = detectDocumentInFrame(video, video.videoWidth, video.videoHeight);
+      const status = autoCapture?.update(detection, video.videoWidth, video.videoHeight);
+
+      let countdown: number | null = null;
+      if (autoCapture && status?.ready) {
+        countdownDeadlineRef.current ??= Date.now() + autoCapture.options.countdownSeconds * 1000;
+        const remaining = countdownDeadlineRef.current - Date.now();
+        if (remaining <= 0) {
+          // A failed capture has to settle and count down again
+          countdownDeadlineRef.current = null;
+          autoCapture.reset();
+          captureRef.current?.();
+        } else {
+          countdown = Math.ceil(remaining / 1000);
+        }
+      } else {
+        countdownDeadlineRef.current = null;
+      }
+
+      setState(prev => {
+        if (!detection && !prev.documentOutline && prev.scanGuidance === (status?.guidance ?? null)) return prev;
+        return {
+          ...prev,
+          documentOutline: detection && {
+            corners: detection.corners,
+            frameWidth: video.videoWidth,
+            frameHeight: video.videoHeight,
+          },
+          scanGuidance: status?.guidance ?? null,
+          autoCaptureCountdown: countdown,
+        };
+      });
+    }, DETECTION_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+      countdownDeadlineRef.current = null;
+      autoCapture?.reset();
+      setState(prev => ({ ...prev, documentOutline: null, scanGuidance: null, autoCaptureCountdown: null }));
+    };
+  }, [state.isDocScanMode, autoCapture]);
+
   return {
     state,
     setState,
@@ -220,7 +433,16 @@ export function useDocumentUpload(callbacks?: DocumentUploadHookCallbacks) {
     handleDocumentUpload,
     handleConfirmDocumentUpload,
     handleManualCapture,
+    setDocType,
+    retakeSide,
+    cancelUpload,
+    mrzBlocked,
+    barcodeBlocked,
+    documentTypes,
+    documentType,
+    requiredSides: documentType.sides,
     startDocCamera,
+    selectCamera: startDocCamera,
   };
 }
 
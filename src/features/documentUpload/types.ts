@@ -1,16 +1,61 @@
-export type DocumentType = 'CNIC' | 'Passport' | 'DrivingLicense';
+import type { DocumentQuad } from '../../services/documentDetection';
+import type { DocumentImages, DocumentSide } from '../../services/kycApiService';
+import type { MrzReadResult } from '../../services/mrz';
+import type { AamvaReadResult } from '../../services/aamva';
+import type { CameraDevice } from '../../services/cameraManager';
+import type { CameraAccessError } from '../../services/kycErrors';
+
+export type { DocumentImages, DocumentSide };
+
+/**
+ * Id of an entry in the document type registry, e.g. 'CNIC', 'Passport' or 'DrivingLicense'
+ */
+export type DocumentType = string;
 
 export interface DocumentUploadState {
   docType: DocumentType;
+  /** Side being captured; the preview below belongs to it */
+  docSide: DocumentSide;
+  /** Previews of the sides already accepted */
+  sidePreviews: Partial<Record<DocumentSide, string>>;
   isDocScanMode: boolean;
   docPreviewUrl: string | null;
   docFileName: string;
   loading: boolean;
+  /** Document outline found in the live camera frame, in video pixels */
+  documentOutline: DocumentOutline | null;
+  /** What to fix before the auto-capture can start, null when nothing is wrong */
+  scanGuidance: string | null;
+  /** Seconds left before the auto-capture fires, null when no countdown is running */
+  autoCaptureCountdown: number | null;
+  /** MRZ check of the previewed side, null when that side has no MRZ */
+  mrzStatus: DocumentCheckStatus | null;
+  /** Barcode check of the previewed side, null when that side has no barcode */
+  barcodeStatus: DocumentCheckStatus | null;
+  /** Percent of the upload sent, null when not uploading */
+  uploadProgress: number | null;
+  /** The upload is waiting for the network and goes out once the device is back online */
+  uploadQueued: boolean;
+  /** Why the camera could not be opened, null while it works */
+  cameraError: CameraAccessError | null;
+  /** Cameras the user can switch between; labels are empty until permission is granted */
+  cameras: CameraDevice[];
+  /** Device id of the camera in use */
+  cameraId: string | null;
+}
+
+export type DocumentCheckStatus = MrzReadResult['status'] | AamvaReadResult['status'] | 'checking';
+
+export interface DocumentOutline {
+  corners: DocumentQuad;
+  frameWidth: number;
+  frameHeight: number;
 }
 
 export interface DocumentUploadCallbacks {
-  onUpload?: (file: File, docType: DocumentType) => void;
-  onScan?: (file: File, docType: DocumentType) => void;
+  /** Called once every required side was submitted; `file` is the front */
+  onUpload?: (file: File, docType: DocumentType, images: DocumentImages) => void;
+  onScan?: (file: File, docType: DocumentType, side: DocumentSide) => void;
   onError?: (error: Error) => void;
 }
 
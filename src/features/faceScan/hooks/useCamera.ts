@@ -1,20 +1,28 @@
 import { useRef, useState, useEffect } from 'react';
+import { checkDeviceIntegrity, type DeviceIntegrityOptions, type DeviceIntegrityReport } from '../../../services/deviceIntegrity';
+import { CameraManager, toCameraError, type CameraDevice } from '../../../services/cameraManager';
+import { KycAbortedError, type CameraAccessError } from '../../../services/kycErrors';
 
-export function useCamera() {
+export interface CameraOptions {
+  /** Check the stream for virtual cameras and injected video; `false` skips the check */
+  integrity?: Omit<DeviceIntegrityOptions, 'video'> | false;
+}
+
+export function useCamera(options: CameraOptions = {}) {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const [camera] = useState(() => new CameraManager({ facing: 'user' }));
   const [cameraReady, setCameraReady] = useState(false);
+  const [cameraError, setCameraError] = useState<CameraAccessError | null>(null);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  const [deviceIntegrity, setDeviceIntegrity] = useState<DeviceIntegrityReport | null>(null);
+  const integrityOptionsRef = useRef(options.integrity);
+  // The running stream's integrity check; null when none runs or the camera stopped
+  const integrityCheckRef = useRef<Promise<DeviceIntegrityReport | null> | null>(null);
 
-  const startCamera = async () => {
+  const startCamera = async (deviceId?: string) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          facingMode: "user",
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        }, 
-        audio: false 
-      });
+      const stream = await camera.start(deviceId);
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         await videoRef.current.play().catch(() => { });
@@ -25,29 +33,65 @@ export function useCamera() {
           } catch { }
         });
       }
-      streamRef.current = stream;
+      setCameraError(null);
+      setCameraId(camera.deviceId);
       setCameraReady(true);
-    } catch (e: any) {
-      console.error('Camera access error:', e);
+      // Labels are only listed once permission has been granted
+      camera.listCameras().then(setCameras).catch(() => { });
+
+      const integrityOptions = integrityOptionsRef.current;
+      if (integrityOptions !== false) {
+        // Runs alongside the scan; frame timing needs the video to be playing
+        const check = checkDeviceIntegrity(stream, { ...integrityOptions, video: videoRef.current })
+          .then((report) => {
+            if (camera.stream !== stream) return null;
+            setDeviceIntegrity(report);
+            return report;
+          })
+          .catch(() => null);
+        integrityCheckRef.current = check;
+      }
+    } catch (e) {
+      // A newer start or stopCamera took over
+      if (e instanceof KycAbortedError) return;
+      const error = toCameraError(e);
+      console.error('Camera access error:', error);
+      setCameraError(error);
       setCameraReady(false);
-      throw e;
+      throw error;
     }
   };
 
   const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((t) => t.stop());
-      streamRef.current = null;
-    }
+    camera.stop();
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
     setCameraReady(false);
+    setDeviceIntegrity(null);
+    integrityCheckRef.current = null;
+  };
+
+  /**
+   * Report of the running stream once its integrity check finishes;
+   * null when no check ran or it did not complete
+   */
+  const waitForDeviceIntegrity = (): Promise<DeviceIntegrityReport | null> =>
+    integrityCheckRef.current ?? Promise.resolve(null);
+
+  const selectCamera = (deviceId: string) => {
+    stopCamera();
+    return startCamera(deviceId);
   };
 
   useEffect(() => {
-    startCamera();
+    startCamera().catch(() => { });
+    // Pick the camera back up once the user re-enables it in the browser settings
+    const unsubscribe = camera.onPermissionChange((permission) => {
+      if (permission === 'granted' && !camera.stream) startCamera().catch(() => { });
+    });
     return () => {
+      unsubscribe();
       stopCamera();
     };
   }, []);
@@ -55,8 +99,13 @@ export function useCamera() {
   return {
     videoRef,
     cameraReady,
+    cameraError,
+    cameras,
+    cameraId,
+    deviceIntegrity,
+    waitForDeviceIntegrity,
     startCamera,
     stopCamera,
+    selectCamera,
   };
 }
-
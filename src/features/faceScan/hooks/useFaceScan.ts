@@ -1,40 +1,147 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { FaceMeshService } from '../../../services/faceMeshService';
-import type { LivenessStage } from '../../../services/faceMeshService';
+import {
+  CENTER_STAGE,
+  LivenessChallengeEngine,
+  headPoseGuidance,
+  type BlinkSignal,
+  type FaceLandmark,
+  type HeadPose,
+  type LivenessEngineOptions,
+  type LivenessSequenceOptions,
+  type LivenessStage,
+  type SpoofSignal,
+} from '../../../services/liveness';
+import type { FaceCaptureMetadata, UploadOptions } from '../../../services/kycApiService';
+import { analyzeFaceQuality, type FaceQualityScores, type FaceQualityThresholds } from '../../../services/faceQuality';
+import type { FaceMeshAssetOptions } from '../../../services/mediapipeAssets';
+import type { DeviceIntegrityReport } from '../../../services/deviceIntegrity';
+import {
+  LivenessFallbackReason,
+  LivenessMode,
+  livenessFallbackMode,
+  type LivenessFallbackPolicy,
+  type LivenessModeRecord,
+} from '../../../services/livenessFallback';
+import {
+  LIVENESS_VIDEO_OPTIONS,
+  VideoSelfieRecorder,
+  extractVideoFrame,
+  type VideoSelfie,
+  type VideoSelfieOptions,
+} from '../../../services/videoSelfie';
+import { KycErrorCode, isKycError } from '../../../services/kycErrors';
 import type { FaceScanState, LivenessRefs } from '../types';
 
 export interface FaceScanCallbacks {
   onFaceCaptureComplete?: (imageData: string) => void;
   onLivenessFailedCallback?: (failed: boolean) => void;
-  onFaceUpload?: (blob: Blob) => Promise<void>;
+  /**
+   * `upload` carries the abort signal and progress listeners to pass on to `uploadFaceScan`;
+   * `video` is the video selfie, when one was recorded
+   */
+  onFaceUpload?: (blob: Blob, metadata: FaceCaptureMetadata, upload: UploadOptions, video?: Blob) => Promise<void>;
+}
+
+export interface FaceScanOptions {
+  /** Challenge sequence and thresholds; a random sequence is drawn when omitted */
+  liveness?: LivenessEngineOptions;
+  /** Overrides for the pre-upload quality gate */
+  quality?: Partial<FaceQualityThresholds>;
+  /** Where the FaceMesh model is loaded from and whether it is preloaded and verified */
+  assets?: FaceMeshAssetOptions;
+  /** Fail the model load after this long without progress. Defaults to 8000ms. */
+  modelTimeout?: number;
+  /** Camera integrity report from `useCamera`, uploaded with the capture */
+  deviceIntegrity?: DeviceIntegrityReport | null;
+  /** What a capture may fall back to when the liveness model fails. Defaults to `allow`. */
+  livenessFallback?: LivenessFallbackPolicy;
+  /**
+   * Accept a selfie file from the camera app or gallery when the camera can't be opened.
+   * Off by default: a file carries no proof it was just taken.
+   */
+  allowSelfieUpload?: boolean;
+  /** Length and bitrate of the video selfie recorded under the `video` fallback */
+  videoSelfie?: VideoSelfieOptions;
+  /**
+   * Record the liveness check and upload it with the capture, with the start of each
+   * challenge marked. `true` uses `LIVENESS_VIDEO_OPTIONS`. Off by default.
+   */
+  recordLiveness?: boolean | VideoSelfieOptions;
+}
+
+// Shown in turn while the video selfie records, spread evenly over its length
+const VIDEO_SELFIE_PROMPTS = [
+  { id: 'CENTER', instruction: 'Look straight at the camera' },
+  { id: 'TURN_LEFT', instruction: 'Slowly turn your head to the left' },
+  { id: 'TURN_RIGHT', instruction: 'Slowly turn your head to the right' },
+  { id: 'CENTER', instruction: 'Look straight at the camera again' },
+];
+
+// Marks the moment the still image was taken in a recorded video
+const CAPTURE_MARKER = 'CAPTURE';
+
+function drawVideoFrame(video: HTMLVideoElement) {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth || 640;
+  canvas.height = video.videoHeight || 480;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+}
+
+async function drawImageFile(image: Blob) {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { canvas, ctx };
 }
 
 export function useFaceScan(
   videoRef: React.RefObject<HTMLVideoElement | null>,
   canvasRef: React.RefObject<HTMLCanvasElement | null>,
-  callbacks?: FaceScanCallbacks
+  callbacks?: FaceScanCallbacks,
+  options: FaceScanOptions = {}
 ) {
-  const [state, setState] = useState<FaceScanState>({
+  const [engine] = useState(() => new LivenessChallengeEngine(options.liveness));
+  const [videoRecorder] = useState(() => new VideoSelfieRecorder(options.videoSelfie));
+  const [livenessRecorder] = useState(() => {
+    if (!options.recordLiveness) return null;
+    return new VideoSelfieRecorder(options.recordLiveness === true ? LIVENESS_VIDEO_OPTIONS : { ...LIVENESS_VIDEO_OPTIONS, ...options.recordLiveness });
+  });
+  const livenessFallback = options.livenessFallback ?? 'allow';
+  const [state, setState] = useState<FaceScanState>(() => ({
     cameraReady: false,
-    livenessStage: 'CENTER',
+    livenessStage: CENTER_STAGE,
+    livenessSequence: engine.sequence,
     livenessReady: false,
     livenessFailed: false,
     modelLoading: true,
     modelLoaded: false,
+    modelProgress: null,
     livenessInstruction: 'Look straight at the camera',
     loading: false,
     allStepsCompleted: false,
     capturedImage: null,
     showDocumentUpload: false,
-  });
+    uploadProgress: null,
+    uploadQueued: false,
+    videoSelfieRecording: false,
+  }));
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Settles with the liveness recording once it stops; null when recording failed
+  const livenessVideoRef = useRef<Promise<VideoSelfie | null> | null>(null);
 
   const refs: LivenessRefs = {
-    centerHold: useRef<number>(0),
-    leftHold: useRef<number>(0),
-    rightHold: useRef<number>(0),
     snapTriggered: useRef<boolean>(false),
     lastResultsAt: useRef<number>(0),
-    livenessStage: useRef<LivenessStage>('CENTER'),
+    livenessStage: useRef<LivenessStage>(CENTER_STAGE),
     cameraDriver: useRef<number | null>(null),
     modelLoaded: useRef<boolean>(false),
     livenessFailed: useRef<boolean>(false),
@@ -42,23 +149,21 @@ export function useFaceScan(
   };
 
   const livenessStateRef = useRef({
-    centerHold: 0,
-    leftHold: 0,
-    rightHold: 0,
     snapTriggered: false,
     lastResultsAt: 0,
-    stage: 'CENTER' as LivenessStage,
+    stage: CENTER_STAGE as LivenessStage,
     livenessReady: false,
     currentYaw: null as number | null,
     currentAbsYaw: null as number | null,
+    headPose: null as HeadPose | null,
+    frameLandmarks: null as FaceLandmark[] | null,
     livenessCompleted: false,
+    blink: null as BlinkSignal | null,
+    spoof: null as SpoofSignal | null,
   });
 
   // Sync refs with state
   useEffect(() => {
-    livenessStateRef.current.centerHold = refs.centerHold.current;
-    livenessStateRef.current.leftHold = refs.leftHold.current;
-    livenessStateRef.current.rightHold = refs.rightHold.current;
     livenessStateRef.current.snapTriggered = refs.snapTriggered.current;
     livenessStateRef.current.lastResultsAt = refs.lastResultsAt.current;
     livenessStateRef.current.stage = state.livenessStage;
@@ -75,104 +180,200 @@ export function useFaceScan(
     setState(prev => ({ ...prev, livenessStage: next }));
   }, []);
 
-  const handleFaceCapture = useCallback(async () => {
-    if (!videoRef.current) return;
-    
-    // Check if face is straight before capturing (reduced threshold, no center check)
-    const reducedThreshold = 0.08; // More lenient threshold - only check if face is straight
-    const currentAbsYaw = livenessStateRef.current.currentAbsYaw;
-    
-    if (currentAbsYaw === null || currentAbsYaw === undefined) {
+  /**
+   * Replace the challenge sequence, e.g. with one seeded by the server.
+   * Ignored once the user has moved past the first stage.
+   */
+  const configureLiveness = useCallback((sequence: LivenessSequenceOptions) => {
+    if (!engine.configure(sequence)) return false;
+    setState(prev => ({ ...prev, livenessSequence: engine.sequence }));
+    return true;
+  }, [engine]);
+
+  /**
+   * Upload a capture and move on to the document step once the server accepts it
+   */
+  const uploadCapture = useCallback(async (
+    blob: Blob,
+    dataUrl: string,
+    quality: FaceQualityScores,
+    liveness: LivenessModeRecord,
+    video?: VideoSelfie | Blob
+  ) => {
+    // Upload face scan if callback provided
+    if (callbacks?.onFaceUpload) {
+      const controller = new AbortController();
+      uploadAbortRef.current = controller;
+      try {
+        const metadata: FaceCaptureMetadata = {
+          challenges: livenessStateRef.current.livenessCompleted ? engine.challengeIds : [],
+          blink: livenessStateRef.current.blink,
+          spoof: livenessStateRef.current.spoof,
+          quality,
+          device: options.deviceIntegrity ?? null,
+          liveness,
+          video: video && !(video instanceof Blob)
+            ? { mimeType: video.mimeType, durationMs: video.durationMs, markers: video.markers, truncated: video.truncated }
+            : null,
+        };
+        setState(prev => ({ ...prev, uploadProgress: 0, uploadQueued: false }));
+        await callbacks.onFaceUpload(blob, metadata, {
+          signal: controller.signal,
+          onProgress: ({ loaded, total }) => {
+            if (total > 0) setState(prev => ({ ...prev, uploadProgress: Math.round((loaded / total) * 100), uploadQueued: false }));
+          },
+          onQueued: () => setState(prev => ({ ...prev, uploadQueued: true })),
+        }, video instanceof Blob ? video : video?.blob);
+        // Only proceed if upload was successful (not face already registered)
+        setState(prev => ({
+          ...prev,
+          capturedImage: dataUrl,
+          allStepsCompleted: true,
+          livenessInstruction: "Face captured and uploaded successfully!",
+          loading: false,
+          uploadProgress: null,
+          uploadQueued: false,
+        }));
+        
+        // Call completion callback
+        if (callbacks?.onFaceCaptureComplete) {
+          callbacks.onFaceCaptureComplete(dataUrl);
+        }
+        
+        setTimeout(() => {
+          setState(prev => ({ ...prev, showDocumentUpload: true }));
+        }, 500);
+      } catch (uploadError: any) {
+        setState(prev => ({ ...prev, uploadProgress: null, uploadQueued: false }));
+        if (isKycError(uploadError, KycErrorCode.ABORTED)) {
+          setState(prev => ({ ...prev, loading: false, livenessInstruction: uploadError.message }));
+          return;
+        }
+        // If it's the face already registered error, don't show document upload
+        if (isKycError(uploadError, KycErrorCode.FACE_ALREADY_REGISTERED)) {
+          setState(prev => ({
+            ...prev,
+            loading: false,
+            allStepsCompleted: false,
+            showDocumentUpload: false,
+            livenessInstruction: "Face already registered. Please click Retry to register again.",
+          }));
+          return; // Don't proceed to document upload
+        }
+        // For other errors, show error message
+        setState(prev => ({
+          ...prev,
+          livenessInstruction: uploadError.message || 'Error capturing image. Please try again.',
+          loading: false,
+        }));
+        throw uploadError;
+      } finally {
+        if (uploadAbortRef.current === controller) uploadAbortRef.current = null;
+      }
+    } else {
       setState(prev => ({
         ...prev,
-        livenessInstruction: "Please position your face in front of the camera",
+        capturedImage: dataUrl,
+        allStepsCompleted: true,
+        livenessInstruction: "Face captured successfully!",
+        loading: false,
       }));
-      return;
+      
+      // Call completion callback
+      if (callbacks?.onFaceCaptureComplete) {
+        callbacks.onFaceCaptureComplete(dataUrl);
+      }
+      
+      setTimeout(() => {
+        setState(prev => ({ ...prev, showDocumentUpload: true }));
+      }, 500);
     }
-    
-    if (currentAbsYaw >= reducedThreshold) {
+  }, [callbacks, engine, options.deviceIntegrity]);
+
+  const handleFaceCapture = useCallback(async () => {
+    if (!videoRef.current) return;
+
+    // Without the model there is no face tracking to gate on; the policy decides what a plain capture is worth
+    const degraded = refs.livenessFailed.current;
+    if (degraded && livenessFallbackMode(livenessFallback) !== LivenessMode.NONE) {
       setState(prev => ({
         ...prev,
-        livenessInstruction: "Please look straight at the camera before capturing",
+        livenessInstruction: livenessFallback === 'video'
+          ? "Record a video selfie to continue"
+          : "The liveness check is unavailable on this device",
       }));
       return;
     }
     
-    setState(prev => ({ ...prev, loading: true }));
-    try {
-      const video = videoRef.current;
-      const canvas = document.createElement("canvas");
-      const width = video.videoWidth || 640;
-      const height = video.videoHeight || 480;
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) throw new Error("Canvas not supported");
-      ctx.drawImage(video, 0, 0, width, height);
-      const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+    if (!degraded) {
+      // Check if face is straight before capturing (reduced threshold, no center check)
+      const reducedThreshold = 0.08; // More lenient threshold - only check if face is straight
+      const currentAbsYaw = livenessStateRef.current.currentAbsYaw;
       
-      // Convert data URL to blob
-      const blob = await (await fetch(dataUrl)).blob();
+      if (currentAbsYaw === null || currentAbsYaw === undefined) {
+        setState(prev => ({
+          ...prev,
+          livenessInstruction: "Please position your face in front of the camera",
+        }));
+        return;
+      }
       
-      // Upload face scan if callback provided
-      if (callbacks?.onFaceUpload) {
-        try {
-          await callbacks.onFaceUpload(blob);
-          // Only proceed if upload was successful (not face already registered)
-          setState(prev => ({
-            ...prev,
-            capturedImage: dataUrl,
-            allStepsCompleted: true,
-            livenessInstruction: "Face captured and uploaded successfully!",
-            loading: false,
-          }));
-          
-          // Call completion callback
-          if (callbacks?.onFaceCaptureComplete) {
-            callbacks.onFaceCaptureComplete(dataUrl);
-          }
-          
-          setTimeout(() => {
-            setState(prev => ({ ...prev, showDocumentUpload: true }));
-          }, 500);
-        } catch (uploadError: any) {
-          // If it's the face already registered error, don't show document upload
-          if (uploadError.message === 'FACE_ALREADY_REGISTERED' || (uploadError as any).isFaceAlreadyRegistered) {
-            setState(prev => ({
-              ...prev,
-              loading: false,
-              allStepsCompleted: false,
-              showDocumentUpload: false,
-              livenessInstruction: "Face already registered. Please click Retry to register again.",
-            }));
-            return; // Don't proceed to document upload
-          }
-          // For other errors, show error message
-          setState(prev => ({
-            ...prev,
-            livenessInstruction: uploadError.message || 'Error capturing image. Please try again.',
-            loading: false,
-          }));
-          throw uploadError;
-        }
-      } else {
+      if (currentAbsYaw >= reducedThreshold) {
         setState(prev => ({
           ...prev,
-          capturedImage: dataUrl,
-          allStepsCompleted: true,
-          livenessInstruction: "Face captured successfully!",
+          livenessInstruction: "Please look straight at the camera before capturing",
+        }));
+        return;
+      }
+
+      // A tilted or lowered head can pass the yaw check, so gate on the full pose too
+      const headPose = livenessStateRef.current.headPose;
+      const poseGuidance = headPose && headPoseGuidance(headPose, engine.capturePoseTolerance);
+      if (poseGuidance) {
+        setState(prev => ({
+          ...prev,
+          livenessInstruction: `${poseGuidance} before capturing`,
+        }));
+        return;
+      }
+    }
+    
+    setState(prev => ({ ...prev, loading: true }));
+    try {
+      const { canvas, ctx } = drawVideoFrame(videoRef.current);
+
+      const quality = analyzeFaceQuality(
+        ctx.getImageData(0, 0, canvas.width, canvas.height),
+        livenessStateRef.current.frameLandmarks,
+        options.quality
+      );
+      const qualityGuidance = quality.guidance;
+      if (qualityGuidance) {
+        // Let the auto-capture try again once the user had time to react
+        engine.rejectCapture(qualityGuidance);
+        livenessStateRef.current.snapTriggered = false;
+        refs.snapTriggered.current = false;
+        setState(prev => ({
+          ...prev,
+          livenessInstruction: qualityGuidance,
           loading: false,
         }));
-        
-        // Call completion callback
-        if (callbacks?.onFaceCaptureComplete) {
-          callbacks.onFaceCaptureComplete(dataUrl);
-        }
-        
-        setTimeout(() => {
-          setState(prev => ({ ...prev, showDocumentUpload: true }));
-        }, 500);
+        return;
       }
+
+      const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+      
+      // Convert data URL to blob
+      const blob = await (await fetch(dataUrl)).blob();
+
+      // The recording ends with the capture; a retried upload sends the same video
+      livenessRecorder?.mark(CAPTURE_MARKER);
+      livenessRecorder?.stop();
+      const livenessVideo = (await livenessVideoRef.current) ?? undefined;
+
+      await uploadCapture(blob, dataUrl, quality.scores, degraded
+        ? { mode: LivenessMode.NONE, policy: livenessFallback, reason: LivenessFallbackReason.MODEL_UNAVAILABLE, source: 'camera' }
+        : { mode: LivenessMode.ACTIVE, policy: livenessFallback, reason: null, source: 'camera' }, livenessVideo);
     } catch (err: any) {
       console.error('Error capturing image:', err);
       setState(prev => ({
@@ -181,7 +382,99 @@ export function useFaceScan(
         loading: false,
       }));
     }
-  }, [callbacks]);
+  }, [engine, options.quality, livenessFallback, livenessRecorder, uploadCapture]);
+
+  /**
+   * Record a short video selfie while prompting a few head turns, then upload
+   * it with a frame from its end. Only available under the `video` fallback
+   * once the liveness model has failed.
+   */
+  const recordVideoSelfie = useCallback(async () => {
+    const video = videoRef.current;
+    const stream = video?.srcObject as MediaStream | null | undefined;
+    if (!video || !stream || videoRecorder.recording) return;
+    if (!refs.livenessFailed.current || livenessFallback !== 'video') return;
+
+    const promptInterval = videoRecorder.maxDurationMs / VIDEO_SELFIE_PROMPTS.length;
+    const promptTimers = VIDEO_SELFIE_PROMPTS.slice(1).map((prompt, index) =>
+      window.setTimeout(() => {
+        videoRecorder.mark(prompt.id);
+        setState(prev => ({ ...prev, livenessInstruction: prompt.instruction }));
+      }, promptInterval * (index + 1))
+    );
+    setState(prev => ({ ...prev, videoSelfieRecording: true, livenessInstruction: VIDEO_SELFIE_PROMPTS[0].instruction }));
+
+    try {
+      const recording = videoRecorder.start(stream);
+      videoRecorder.mark(VIDEO_SELFIE_PROMPTS[0].id);
+      const selfie = await recording;
+      // The last prompt has the user looking straight at the camera
+      const { canvas, ctx } = drawVideoFrame(video);
+      setState(prev => ({ ...prev, videoSelfieRecording: false, loading: true }));
+      const quality = analyzeFaceQuality(ctx.getImageData(0, 0, canvas.width, canvas.height), null, options.quality);
+      const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+      const blob = await (await fetch(dataUrl)).blob();
+      // The selfie is meant to run its full length, so reaching it truncates nothing
+      await uploadCapture(blob, dataUrl, quality.scores, {
+        mode: LivenessMode.VIDEO_SELFIE,
+        policy: livenessFallback,
+        reason: LivenessFallbackReason.MODEL_UNAVAILABLE,
+        source: 'camera',
+      }, { ...selfie, truncated: false, markers: [...selfie.markers, { label: CAPTURE_MARKER, atMs: selfie.durationMs }] });
+    } catch (err) {
+      console.error('Error recording video selfie:', err);
+      setState(prev => ({
+        ...prev,
+        livenessInstruction: (err instanceof Error && err.message) || 'Error recording video. Please try again.',
+        videoSelfieRecording: false,
+        loading: false,
+      }));
+    } finally {
+      promptTimers.forEach((id) => window.clearTimeout(id));
+    }
+  }, [videoRef, videoRecorder, livenessFallback, options.quality, uploadCapture, refs.livenessFailed]);
+
+  /**
+   * Upload a selfie the user picked or took with the camera app, for when the
+   * camera can't be opened in the browser. Needs `allowSelfieUpload`; then
+   * `allow` takes a photo, `video` a video selfie and `block` nothing.
+   */
+  const uploadSelfieFile = useCallback(async (file: File) => {
+    const mode = options.allowSelfieUpload ? livenessFallbackMode(livenessFallback) : null;
+    if (!mode) {
+      setState(prev => ({ ...prev, livenessInstruction: "The liveness check is unavailable on this device" }));
+      return;
+    }
+    const isVideo = file.type.startsWith('video/');
+    if (isVideo !== (mode === LivenessMode.VIDEO_SELFIE)) {
+      setState(prev => ({
+        ...prev,
+        livenessInstruction: mode === LivenessMode.VIDEO_SELFIE ? "Please record a video selfie" : "Please choose a photo of your face",
+      }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true }));
+    try {
+      const image = isVideo ? await extractVideoFrame(file) : file;
+      const { canvas, ctx } = await drawImageFile(image);
+      const quality = analyzeFaceQuality(ctx.getImageData(0, 0, canvas.width, canvas.height), null, options.quality);
+      const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+      await uploadCapture(image, dataUrl, quality.scores, {
+        mode,
+        policy: livenessFallback,
+        reason: LivenessFallbackReason.CAMERA_UNAVAILABLE,
+        source: 'file',
+      }, isVideo ? file : undefined);
+    } catch (err) {
+      console.error('Error reading selfie file:', err);
+      setState(prev => ({
+        ...prev,
+        livenessInstruction: (err instanceof Error && err.message) || 'Error reading the file. Please try again.',
+        loading: false,
+      }));
+    }
+  }, [livenessFallback, options.allowSelfieUpload, options.quality, uploadCapture]);
 
   useEffect(() => {
     refs.handleFaceCapture.current = handleFaceCapture;
@@ -193,6 +486,18 @@ export function useFaceScan(
     let service: FaceMeshService | null = null;
     let initTimeoutId: number | null = null;
     let cancelled = false;
+    let recordedStage: string | null = null;
+
+    // Starts with the first challenge, so the length cap isn't spent while the user centres
+    const startLivenessRecording = () => {
+      const stream = videoRef.current?.srcObject as MediaStream | null | undefined;
+      if (!livenessRecorder || !stream || livenessRecorder.recording) return;
+      livenessVideoRef.current = livenessRecorder.start(stream).catch((error) => {
+        // The capture still goes ahead, just without the video
+        console.warn('Liveness recording failed:', error);
+        return null;
+      });
+    };
 
     const start = async () => {
       try {
@@ -211,6 +516,13 @@ export function useFaceScan(
               }));
               refs.modelLoaded.current = true;
             },
+            onModelProgress: (progress) => {
+              if (cancelled) return;
+              armInitTimeout();
+              if (progress.total === null) return;
+              const percent = Math.floor((progress.loaded / progress.total) * 100);
+              setState(prev => (prev.modelProgress === percent ? prev : { ...prev, modelProgress: percent }));
+            },
             onModelFailed: (error) => {
               if (cancelled) return;
               setState(prev => ({
@@ -224,6 +536,11 @@ export function useFaceScan(
             },
             onLivenessUpdate: (stage, instruction) => {
               if (cancelled) return;
+              if (stage.id !== recordedStage) {
+                recordedStage = stage.id;
+                if (stage.id !== CENTER_STAGE.id) startLivenessRecording();
+                livenessRecorder?.mark(stage.id);
+              }
               setState(prev => ({
                 ...prev,
                 livenessStage: stage,
@@ -232,10 +549,6 @@ export function useFaceScan(
               }));
               livenessStateRef.current.stage = stage;
               refs.livenessStage.current = stage;
-              // Sync hold counts from service state
-              refs.centerHold.current = livenessStateRef.current.centerHold;
-              refs.leftHold.current = livenessStateRef.current.leftHold;
-              refs.rightHold.current = livenessStateRef.current.rightHold;
               refs.snapTriggered.current = livenessStateRef.current.snapTriggered;
             },
             onCaptureTrigger: () => {
@@ -244,7 +557,9 @@ export function useFaceScan(
                 refs.handleFaceCapture.current();
               }
             },
-          }
+          },
+          engine,
+          options.assets
         );
 
         await service.initialize();
@@ -261,17 +576,22 @@ export function useFaceScan(
       }
     };
 
-    initTimeoutId = window.setTimeout(() => {
-      if (!cancelled && !refs.modelLoaded.current && !refs.livenessFailed.current) {
-        setState(prev => ({
-          ...prev,
-          livenessFailed: true,
-          modelLoading: false,
-        }));
-        refs.livenessFailed.current = true;
-      }
-    }, 8000);
+    // Restarted on every progress report, so slow but moving downloads don't time out
+    const armInitTimeout = () => {
+      if (initTimeoutId) window.clearTimeout(initTimeoutId);
+      initTimeoutId = window.setTimeout(() => {
+        if (!cancelled && !refs.modelLoaded.current && !refs.livenessFailed.current) {
+          setState(prev => ({
+            ...prev,
+            livenessFailed: true,
+            modelLoading: false,
+          }));
+          refs.livenessFailed.current = true;
+        }
+      }, options.modelTimeout ?? 8000);
+    };
 
+    armInitTimeout();
     start();
 
     // Cleanup function - must return a function, not a Promise
@@ -285,16 +605,31 @@ export function useFaceScan(
         service.cleanup();
         service = null;
       }
+      livenessRecorder?.stop();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [state.cameraReady]);
 
+  // Don't leave the recorder running when the scan closes mid-recording
+  useEffect(() => () => videoRecorder.stop(), [videoRecorder]);
+
+  /**
+   * Stop the upload in progress, or waiting for the network
+   */
+  const cancelUpload = useCallback(() => {
+    uploadAbortRef.current?.abort();
+  }, []);
+
   return {
     state,
     setState,
     refs,
     setStage,
+    configureLiveness,
     handleFaceCapture,
+    recordVideoSelfie,
+    uploadSelfieFile,
+    cancelUpload,
   };
 }
 
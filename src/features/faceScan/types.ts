@@ -1,23 +1,32 @@
-export type LivenessStage = 'CENTER' | 'LEFT' | 'RIGHT' | 'SNAP' | 'DONE';
+import type { LivenessStage } from '../../services/liveness';
+
+export type { LivenessStage };
 
 export interface FaceScanState {
   cameraReady: boolean;
   livenessStage: LivenessStage;
+  /** Every stage the user goes through, in order */
+  livenessSequence: LivenessStage[];
   livenessReady: boolean;
   livenessFailed: boolean;
   modelLoading: boolean;
   modelLoaded: boolean;
+  /** Preload progress in percent, null when unknown or not preloading */
+  modelProgress: number | null;
   livenessInstruction: string;
   loading: boolean;
   allStepsCompleted: boolean;
   capturedImage: string | null;
   showDocumentUpload: boolean;
+  /** Percent of the upload sent, null when not uploading */
+  uploadProgress: number | null;
+  /** The upload is waiting for the network and goes out once the device is back online */
+  uploadQueued: boolean;
+  /** A video selfie is being recorded under the `video` liveness fallback */
+  videoSelfieRecording: boolean;
 }
 
 export interface LivenessRefs {
-  centerHold: React.MutableRefObject<number>;
-  leftHold: React.MutableRefObject<number>;
-  rightHold: React.MutableRefObject<number>;
   snapTriggered: React.MutableRefObject<boolean>;
   lastResultsAt: React.MutableRefObject<number>;
   livenessStage: React.MutableRefObject<LivenessStage>;
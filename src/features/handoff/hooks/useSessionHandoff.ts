@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { COMPLETED_STEPS, type KycApiService } from '../../../services/kycApiService';
+import { resolveKycStep } from '../../../services/kycSession';
+import { PollingTransport, type SessionTransport, type SessionStatusData } from '../../../services/sessionTransport';
+import type { HandoffProgress, HandoffState } from '../types';
+
+const PROGRESS_ORDER: HandoffProgress[] = [
+  'waiting',
+  'phone_connected',
+  'face_captured',
+  'documents_uploaded',
+  'completed',
+];
+
+export interface SessionHandoffOptions {
+  createTransport?: (apiService: KycApiService) => SessionTransport;
+  onCompleted?: (status: SessionStatusData) => void;
+}
+
+/**
+ * Map a status payload onto the progress shown on the desktop
+ */
+export function resolveHandoffProgress(data: SessionStatusData): HandoffProgress {
+  if (resolveKycStep(data) === COMPLETED_STEPS.COMPLETED) return 'completed';
+  if (data.completed_steps.includes(COMPLETED_STEPS.DOCS)) return 'documents_uploaded';
+  if (data.completed_steps.includes(COMPLETED_STEPS.FACE)) return 'face_captured';
+  if (data.device_connected) return 'phone_connected';
+  return 'waiting';
+}
+
+function furthest(a: HandoffProgress, b: HandoffProgress): HandoffProgress {
+  return PROGRESS_ORDER.indexOf(a) >= PROGRESS_ORDER.indexOf(b) ? a : b;
+}
+
+export function useSessionHandoff(apiService: KycApiService | null, options: SessionHandoffOptions = {}) {
+  const [state, setState] = useState<HandoffState>({
+    progress: 'waiting',
+    status: null,
+    error: null,
+  });
+
+  const transportRef = useRef<SessionTransport | null>(null);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!apiService) return;
+
+    const { createTransport } = optionsRef.current;
+    const transport = createTransport ? createTransport(apiService) : new PollingTransport(apiService);
+    transportRef.current = transport;
+    let finished = false;
+
+    transport.start({
+      onUpdate: (update) => {
+        if (finished) return;
+        if (update.type === 'device_connected') {
+          setState(prev => ({ ...prev, progress: furthest(prev.progress, 'phone_connected') }));
+          return;
+        }
+        const progress = resolveHandoffProgress(update.data);
+        setState(prev => ({
+          ...prev,
+          status: update.data,
+          error: null,
+          progress: furthest(prev.progress, progress),
+        }));
+        if (progress === 'completed') {
+          finished = true;
+          transport.stop();
+          optionsRef.current.onCompleted?.(update.data);
+        }
+      },
+      onError: (error) => {
+        if (finished) return;
+        setState(prev => ({ ...prev, error }));
+      },
+    });
+
+    return () => {
+      finished = true;
+      transport.stop();
+      transportRef.current = null;
+    };
+  }, [apiService]);
+
+  const refresh = useCallback(() => {
+    transportRef.current?.refresh?.();
+  }, []);
+
+  return {
+    state,
+    watching: apiService !== null && state.progress !== 'completed',
+    refresh,
+  };
+}
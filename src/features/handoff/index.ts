@@ -0,0 +1,2 @@
+export * from './types';
+export { useSessionHandoff, resolveHandoffProgress } from './hooks/useSessionHandoff';
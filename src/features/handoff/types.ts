@@ -0,0 +1,21 @@
+import type { KycError } from '../../services/kycErrors';
+import type { SessionStatusData } from '../../services/sessionTransport';
+
+/**
+ * How the QR link authenticates the phone: `token` carries a single-use
+ * handoff token, `query` puts the server key in the URL (legacy, opt-in only)
+ */
+export type HandoffMode = 'token' | 'query';
+
+export type HandoffProgress =
+  | 'waiting'
+  | 'phone_connected'
+  | 'face_captured'
+  | 'documents_uploaded'
+  | 'completed';
+
+export interface HandoffState {
+  progress: HandoffProgress;
+  status: SessionStatusData | null;
+  error: KycError | null;
+}
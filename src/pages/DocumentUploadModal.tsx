@@ -2,18 +2,41 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDocumentUpload } from '../features/documentUpload/hooks/useDocumentUpload';
 import { useKycContext } from '../contexts/KycContext';
-import { COMPLETED_STEPS } from '../services/kycApiService';
-import type { DocumentType } from '../features/documentUpload/types';
+import { COMPLETED_STEPS, type DocumentCaptureMetadata, type DocumentImages, type DocumentSide, type DocumentUploadResponse, type UploadOptions } from '../services/kycApiService';
+import { KycErrorCode, SessionExpiredError, isKycError, toKycError } from '../services/kycErrors';
+import { resolveKycStep } from '../services/kycSession';
+import { UploadProgress } from '../components/UploadProgress';
+import { CameraErrorPanel } from '../components/CameraErrorPanel';
+import { CameraPicker } from '../components/CameraPicker';
+import { fromServerDocumentTypes, getDocumentCountries, type DocumentTypeDefinition } from '../services/documentTypes';
+import type { MrzTextRecognizer } from '../services/mrz';
+import type { BarcodeDecoder } from '../services/aamva';
 
 interface DocumentUploadModalProps {
   onComplete?: (file: File, docType: string) => void;
+  /** Documents offered to the user; a list sent by the server takes precedence */
+  documentTypes?: DocumentTypeDefinition[];
+  /** OCR for the machine-readable zone of passports and ID cards */
+  mrzRecognizer?: MrzTextRecognizer;
+  /** PDF417 decoder for the barcode on driving licence backs */
+  barcodeDecoder?: BarcodeDecoder;
 }
 
-function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
+function countryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'region' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function DocumentUploadModal({ onComplete, documentTypes: documentTypesProp, mrzRecognizer, barcodeDecoder }: DocumentUploadModalProps) {
   const navigate = useNavigate();
-  const { apiService } = useKycContext();
+  const { apiService, events, resumingUploads } = useKycContext();
   const [sessionError, setSessionError] = useState<string | null>(null);
   const [kycCompleted, setKycCompleted] = useState(false);
+  const [serverDocumentTypes, setServerDocumentTypes] = useState<DocumentTypeDefinition[] | null>(null);
+  const [country, setCountry] = useState<string | null>(null);
   
   const {
     state,
@@ -23,19 +46,36 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
     handleDocumentUpload,
     handleConfirmDocumentUpload,
     handleManualCapture,
-    startDocCamera,
+    selectCamera,
+    setDocType,
+    retakeSide,
+    cancelUpload,
+    mrzBlocked,
+    barcodeBlocked,
+    documentTypes,
+    documentType,
+    requiredSides,
   } = useDocumentUpload({
-    onDocumentUpload: async (blob: Blob, docType: string) => {
+    onDocumentUpload: async (images: DocumentImages, docType: string, metadata: DocumentCaptureMetadata | undefined, upload: UploadOptions) => {
       if (!apiService) {
         throw new Error('API service not initialized');
       }
-      await apiService.uploadDocument(blob, docType);
+      let response: DocumentUploadResponse;
+      try {
+        response = await apiService.uploadDocument(images, docType, metadata, upload);
+      } catch (error) {
+        if (!isKycError(error, KycErrorCode.ABORTED)) {
+          events.error(toKycError(error, 'docs'));
+        }
+        throw error;
+      }
+      events.stepComplete({ step: 'document_upload', response, docType, file: images.front as Blob, images, metadata });
       // Check if KYC is completed after document upload
       try {
         const statusResponse = await apiService.getSessionStatus();
-        const { completed_steps, next_step } = statusResponse.data;
-        if (next_step === 'completed' || completed_steps.includes(COMPLETED_STEPS.COMPLETED)) {
+        if (resolveKycStep(statusResponse.data) === COMPLETED_STEPS.COMPLETED) {
           setKycCompleted(true);
+          events.complete(statusResponse.data);
         }
       } catch (error) {
         console.error('Error checking completion status:', error);
@@ -46,50 +86,44 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
         onComplete(file, docType);
       }
     },
-    onScan: (file, docType) => {
-      if (onComplete) {
-        onComplete(file, docType);
-      }
-    },
-  });
+  }, { documentTypes: serverDocumentTypes ?? documentTypesProp, mrzRecognizer, barcodeDecoder });
+  const countries = getDocumentCountries(documentTypes);
+  const visibleTypes = documentTypes.filter((type) => !country || !type.country || type.country === country);
+  const sideLabel = (side: DocumentSide) =>
+    requiredSides.length === 1 ? 'data page' : `${side} side`;
+  const isLastSide = requiredSides.filter((side) => side !== state.docSide).every((side) => state.sidePreviews[side]);
   
   // Check session status on mount
   useEffect(() => {
     const checkSession = async () => {
-      if (!apiService) return;
+      // Wait for uploads queued by an earlier visit; they can move the session to another step
+      if (!apiService || resumingUploads) return;
       
       try {
         const statusResponse = await apiService.getSessionStatus();
-        const { completed_steps, next_step, status } = statusResponse.data;
+        const step = resolveKycStep(statusResponse.data);
         
         // Check if KYC is completed
-        if (status === 'COMPLETED' || completed_steps.includes(COMPLETED_STEPS.COMPLETED)) {
+        if (step === COMPLETED_STEPS.COMPLETED) {
           setKycCompleted(true);
+          events.complete(statusResponse.data);
           return;
         }
         
         // Check if session is active
-        if (status !== 'ACTIVE') {
-          throw new Error('Session expired or inactive');
-        }
-        
-        // If document_upload is already completed, show completion message
-        if (completed_steps.includes(COMPLETED_STEPS.DOCS)) {
-          // Check if all steps are completed
-          if (completed_steps.includes(COMPLETED_STEPS.FACE) && completed_steps.includes(COMPLETED_STEPS.DOCS)) {
-            setKycCompleted(true);
-            return;
-          }
+        if (statusResponse.data.status !== 'ACTIVE') {
+          throw new SessionExpiredError('Session expired or inactive');
         }
         
-        // If next_step is not document_upload and face_scan is not completed, redirect to face scan
-        if (next_step === COMPLETED_STEPS.FACE && !completed_steps.includes(COMPLETED_STEPS.FACE)) {
+        if (step === COMPLETED_STEPS.FACE) {
           // Should not happen if we're in document upload modal, but handle it
           console.warn('Face scan not completed, but in document upload modal');
         }
         
+        setServerDocumentTypes(fromServerDocumentTypes(statusResponse.data.document_types));
         setSessionError(null);
       } catch (error: any) {
+        events.error(toKycError(error, 'status'));
         const message = error.message || 'Session expired or inactive';
         setSessionError(message);
         // Redirect to QR page after showing error
@@ -100,7 +134,7 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
     };
     
     checkSession();
-  }, [apiService, navigate]);
+  }, [apiService, resumingUploads, events, navigate]);
 
 
   if (kycCompleted) {
@@ -153,8 +187,60 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
           <h2 className="m-0 mb-4 text-xl font-bold text-white">
             Document
           </h2>
+          {requiredSides.length > 1 && (
+            <div className="flex gap-2 mb-2">
+              {requiredSides.map((side) => (
+                <span
+                  key={side}
+                  className={`py-1 px-3 rounded-full text-xs capitalize ${
+                    state.sidePreviews[side]
+                      ? "bg-green-900/60 text-green-300"
+                      : side === state.docSide
+                        ? "bg-[#1f2937] text-white"
+                        : "bg-[#111827] text-[#6b7280]"
+                  }`}
+                >
+                  {state.sidePreviews[side] ? "✔ " : ""}{side}
+                </span>
+              ))}
+            </div>
+          )}
+          <p className="m-0 text-[#9ca3af] text-sm">
+            Capture the {sideLabel(state.docSide)} of your document
+          </p>
         </div>
 
+        {requiredSides.some((side) => state.sidePreviews[side]) && !state.isDocScanMode && (
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {requiredSides.filter((side) => state.sidePreviews[side]).map((side) => (
+              <div key={side} className="grid gap-1">
+                <img
+                  src={state.sidePreviews[side]}
+                  alt={`Document ${sideLabel(side)}`}
+                  className="w-full rounded-md border border-[#374151]"
+                />
+                <button
+                  type="button"
+                  onClick={() => retakeSide(side)}
+                  disabled={state.loading}
+                  className="py-1 px-2 rounded-md bg-[#111827] text-[#e5e7eb] border-none text-xs cursor-pointer hover:bg-[#1f2937] transition-colors disabled:opacity-50 capitalize"
+                >
+                  Retake {sideLabel(side)}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {state.cameraError && !state.isDocScanMode && (
+          <div className="mb-3">
+            <CameraErrorPanel
+              error={state.cameraError}
+              onRetry={() => setState(prev => ({ ...prev, isDocScanMode: true, cameraError: null }))}
+            />
+          </div>
+        )}
+
         {!state.isDocScanMode && (
           <div className="grid gap-2 mb-3">
             <button
@@ -167,8 +253,7 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
             <button
               type="button"
               onClick={() => {
-                setState(prev => ({ ...prev, isDocScanMode: true }));
-                startDocCamera();
+                setState(prev => ({ ...prev, isDocScanMode: true, cameraError: null }));
               }}
               className="w-full py-3 px-4 rounded-lg text-white border-none text-base cursor-pointer transition-opacity hover:opacity-90"
               style={{
@@ -180,42 +265,50 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
           </div>
         )}
 
-        <div className="flex gap-3 mb-4">
-          <label className="flex items-center gap-1.5 text-[#e5e7eb] cursor-pointer">
-            <input
-              type="radio"
-              name="doc-type"
-              value="CNIC"
-              checked={state.docType === "CNIC"}
-              defaultChecked
-              onChange={() => setState(prev => ({ ...prev, docType: "CNIC" as DocumentType }))}
-              className="cursor-pointer w-4 h-4"
-              style={{
-                accentColor: state.docType === "CNIC" ? "#ef4444" : "#6b7280"
-              }}
-            />
-            NIC
-          </label>
-          <label className="flex items-center gap-1.5 text-[#e5e7eb] cursor-pointer">
-            <input
-              type="radio"
-              name="doc-type"
-              value="Passport"
-              checked={state.docType === "Passport"}
-              onChange={() => setState(prev => ({ ...prev, docType: "Passport" as DocumentType }))}
-              className="cursor-pointer w-4 h-4"
-              style={{
-                accentColor: state.docType === "Passport" ? "#ef4444" : "#6b7280"
-              }}
-            />
-            Passport
-          </label>
+        {countries.length > 1 && (
+          <select
+            value={country ?? ""}
+            onChange={(e) => {
+              const next = e.target.value || null;
+              setCountry(next);
+              const available = documentTypes.filter((type) => !next || !type.country || type.country === next);
+              if (available.length > 0 && !available.some((type) => type.id === documentType.id)) {
+                setDocType(available[0].id);
+              }
+            }}
+            disabled={state.loading || state.isDocScanMode}
+            className="w-full mb-3 py-2 px-3 rounded-lg bg-[#111827] text-[#e5e7eb] border border-[#374151] text-sm"
+          >
+            <option value="">All countries</option>
+            {countries.map((code) => (
+              <option key={code} value={code}>{countryName(code)}</option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex flex-wrap gap-3 mb-4">
+          {visibleTypes.map((type) => (
+            <label key={type.id} className="flex items-center gap-1.5 text-[#e5e7eb] cursor-pointer">
+              <input
+                type="radio"
+                name="doc-type"
+                value={type.id}
+                checked={documentType.id === type.id}
+                onChange={() => setDocType(type.id)}
+                className="cursor-pointer w-4 h-4"
+                style={{
+                  accentColor: documentType.id === type.id ? "#ef4444" : "#6b7280"
+                }}
+              />
+              {type.label}
+            </label>
+          ))}
         </div>
 
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*,.pdf"
+          accept={documentType.accept.join(",")}
           onChange={handleDocumentUpload}
           className="hidden"
         />
@@ -230,7 +323,36 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
                 autoPlay
                 className="w-full h-full object-cover"
               />
+              {state.documentOutline && (
+                // Same viewBox and slice scaling as the object-cover video, so the outline lines up
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox={`0 0 ${state.documentOutline.frameWidth} ${state.documentOutline.frameHeight}`}
+                  preserveAspectRatio="xMidYMid slice"
+                >
+                  <polygon
+                    points={state.documentOutline.corners.map((p) => `${p.x},${p.y}`).join(' ')}
+                    fill="rgba(16, 185, 129, 0.15)"
+                    stroke="#10b981"
+                    strokeWidth={Math.max(state.documentOutline.frameWidth, state.documentOutline.frameHeight) / 150}
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              )}
+              {state.autoCaptureCountdown !== null && !state.loading && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="w-20 h-20 rounded-full bg-black/60 flex items-center justify-center text-white text-4xl font-bold">
+                    {state.autoCaptureCountdown}
+                  </div>
+                </div>
+              )}
             </div>
+            <CameraPicker
+              cameras={state.cameras}
+              value={state.cameraId}
+              onChange={(deviceId) => selectCamera(deviceId)}
+              disabled={state.loading}
+            />
             <div className="flex gap-2">
               <button
                 type="button"
@@ -257,7 +379,11 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
             <p className="m-0 text-[#9ca3af] text-xs text-center">
               {state.loading 
                 ? "Processing document..." 
-                : "Position your document in the frame and tap 'Capture Document' when ready."}
+                : state.autoCaptureCountdown !== null
+                  ? "Hold steady, capturing automatically..."
+                  : state.scanGuidance ?? (state.documentOutline
+                    ? "Document detected. Hold steady and tap 'Capture Document'."
+                    : "Position your document in the frame and tap 'Capture Document' when ready.")}
             </p>
           </div>
         )}
@@ -269,27 +395,61 @@ function DocumentUploadModal({ onComplete }: DocumentUploadModalProps) {
           </div>
         )}
 
-        {state.loading && !state.isDocScanMode && (
+        {state.loading && !state.isDocScanMode && state.uploadProgress === null && (
           <p className="m-3 mt-0 text-[#60a5fa] text-center">
             Processing...
           </p>
         )}
 
+        {state.uploadProgress !== null && (
+          <div className="mt-3">
+            <UploadProgress progress={state.uploadProgress} queued={state.uploadQueued} onCancel={cancelUpload} />
+          </div>
+        )}
+
         {!state.isDocScanMode && state.docPreviewUrl && (
           <div className="mt-3">
             <div className="font-semibold mb-1.5 text-[#e5e7eb]">Preview</div>
             <img src={state.docPreviewUrl} alt="Document preview" className="w-full rounded-lg border border-[#374151]" />
+            {state.mrzStatus === "checking" && (
+              <p className="m-0 mt-2 text-[#60a5fa] text-sm">Reading the machine-readable zone...</p>
+            )}
+            {state.mrzStatus === "valid" && (
+              <p className="m-0 mt-2 text-green-400 text-sm">✔ Machine-readable zone verified</p>
+            )}
+            {(state.mrzStatus === "invalid" || state.mrzStatus === "unreadable") && (
+              <p className="m-0 mt-2 text-red-400 text-sm">
+                {state.mrzStatus === "invalid"
+                  ? "The machine-readable zone did not read correctly."
+                  : "We couldn't find the machine-readable zone (the two or three lines of <<< at the bottom)."}
+                {" "}Please retake the photo with the whole page flat, in focus and free of glare.
+              </p>
+            )}
+            {state.barcodeStatus === "checking" && (
+              <p className="m-0 mt-2 text-[#60a5fa] text-sm">Reading the barcode...</p>
+            )}
+            {state.barcodeStatus === "valid" && (
+              <p className="m-0 mt-2 text-green-400 text-sm">✔ Barcode read</p>
+            )}
+            {(state.barcodeStatus === "invalid" || state.barcodeStatus === "unreadable") && (
+              <p className="m-0 mt-2 text-red-400 text-sm">
+                {state.barcodeStatus === "invalid"
+                  ? "The barcode is missing some of the licence details."
+                  : "We couldn't read the barcode on the back of the licence."}
+                {" "}Please retake the photo with the whole barcode in view, in focus and free of glare.
+              </p>
+            )}
             <div className="grid gap-2 grid-cols-2 mt-2">
               <button
                 type="button"
                 onClick={handleConfirmDocumentUpload}
-                disabled={state.loading}
+                disabled={state.loading || mrzBlocked || barcodeBlocked}
                 className="py-3 px-4 rounded-lg text-white border-none text-base cursor-pointer w-full transition-opacity disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90"
                 style={{
                   background: "linear-gradient(90deg, #10b981 0%, #059669 100%)"
                 }}
               >
-                {state.loading ? "Uploading..." : "Looks good, continue"}
+                {state.loading ? "Uploading..." : isLastSide ? "Looks good, continue" : "Looks good, next side"}
               </button>
               <button
                 type="button"
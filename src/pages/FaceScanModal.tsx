@@ -5,57 +5,118 @@ import { useCamera } from '../features/faceScan/hooks/useCamera';
 import { useFaceScan } from '../features/faceScan/hooks/useFaceScan';
 import { useKycContext } from '../contexts/KycContext';
 import { Toast } from '../components/Toast';
+import { UploadProgress } from '../components/UploadProgress';
+import { CameraErrorPanel } from '../components/CameraErrorPanel';
+import { CameraPicker } from '../components/CameraPicker';
 import { COMPLETED_STEPS } from '../services/kycApiService';
+import { resolveKycStep } from '../services/kycSession';
+import { DeviceIntegrityError, KycErrorCode, LivenessUnavailableError, SessionExpiredError, isKycError, toKycError } from '../services/kycErrors';
+import { DONE_STAGE } from '../services/liveness';
+import type { FaceMeshAssetOptions } from '../services/mediapipeAssets';
+import type { DocumentTypeDefinition } from '../services/documentTypes';
+import type { MrzTextRecognizer } from '../services/mrz';
+import type { BarcodeDecoder } from '../services/aamva';
+import type { DeviceIntegrityPolicy } from '../services/deviceIntegrity';
+import { LivenessFallbackReason, type LivenessFallbackPolicy } from '../services/livenessFallback';
+import type { VideoSelfieOptions } from '../services/videoSelfie';
 import '../index.css';
 
 interface FaceScanModalProps {
   onClose: () => void;
+  /** Start the scan over from a fresh modal */
+  onRestart: () => void;
   onComplete?: (capturedImage: string) => void;
+  faceMeshAssets?: FaceMeshAssetOptions;
+  documentTypes?: DocumentTypeDefinition[];
+  mrzRecognizer?: MrzTextRecognizer;
+  barcodeDecoder?: BarcodeDecoder;
+  deviceIntegrity?: DeviceIntegrityPolicy;
+  livenessFallback?: LivenessFallbackPolicy;
+  allowSelfieUpload?: boolean;
+  recordLiveness?: boolean | VideoSelfieOptions;
 }
 
-function FaceScanModal({ onComplete }: FaceScanModalProps) {
+function FaceScanModal({ onRestart, onComplete, faceMeshAssets, documentTypes, mrzRecognizer, barcodeDecoder, deviceIntegrity: deviceIntegrityProp = 'report', livenessFallback: livenessFallbackProp = 'allow', allowSelfieUpload: allowSelfieUploadProp = false, recordLiveness }: FaceScanModalProps) {
   const faceCanvasRef = useRef<HTMLCanvasElement>(null);
   const navigate = useNavigate();
-  const { apiService } = useKycContext();
+  const { apiService, events, resumingUploads } = useKycContext();
   const [sessionError, setSessionError] = useState<string | null>(null);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' | 'warning' } | null>(null);
   const [showRetryButton, setShowRetryButton] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
   const [kycCompleted, setKycCompleted] = useState(false);
+  // The session's own policies win: on the hosted phone page the merchant's props never arrive
+  const [serverDeviceIntegrity, setServerDeviceIntegrity] = useState<DeviceIntegrityPolicy | null>(null);
+  const deviceIntegrity = serverDeviceIntegrity ?? deviceIntegrityProp;
+  const [serverLivenessFallback, setServerLivenessFallback] = useState<LivenessFallbackPolicy | null>(null);
+  const livenessFallback = serverLivenessFallback ?? livenessFallbackProp;
+  const [serverAllowSelfieUpload, setServerAllowSelfieUpload] = useState<boolean | null>(null);
+  const allowSelfieUpload = serverAllowSelfieUpload ?? allowSelfieUploadProp;
   
-  const { videoRef, cameraReady, stopCamera } = useCamera();
-  const { state, setState, refs, handleFaceCapture } = useFaceScan(videoRef, faceCanvasRef, {
-    onFaceUpload: async (blob: Blob) => {
+  const integrityReportedRef = useRef(false);
+  const livenessReportedRef = useRef(false);
+  const selfieInputRef = useRef<HTMLInputElement>(null);
+  
+  const {
+    videoRef,
+    cameraReady,
+    cameraError,
+    cameras,
+    cameraId,
+    startCamera,
+    stopCamera,
+    selectCamera,
+    deviceIntegrity: integrityReport,
+    waitForDeviceIntegrity,
+  } = useCamera();
+  const integrityBlocked = deviceIntegrity === 'block' && integrityReport?.risk === 'high';
+  const {
+    state,
+    setState,
+    configureLiveness,
+    handleFaceCapture,
+    recordVideoSelfie,
+    uploadSelfieFile,
+    cancelUpload,
+  } = useFaceScan(videoRef, faceCanvasRef, {
+    onFaceUpload: async (blob, metadata, upload, video) => {
       if (!apiService) {
         throw new Error('API service not initialized');
       }
+      if (integrityBlocked) {
+        throw new DeviceIntegrityError(undefined, integrityReport);
+      }
+      // Under block, a camera capture only goes out once its check has passed;
+      // a check that is still running is waited for, one that never finished refuses
+      if (deviceIntegrity === 'block' && metadata.liveness?.source !== 'file') {
+        const report = integrityReport ?? await waitForDeviceIntegrity();
+        if (!report) {
+          const error = new DeviceIntegrityError("This camera couldn't be checked. Please try again with your device's built-in camera.");
+          events.error(error);
+          throw error;
+        }
+        if (report.risk === 'high') {
+          throw new DeviceIntegrityError(undefined, report);
+        }
+        metadata = { ...metadata, device: report };
+      }
       try {
-        await apiService.uploadFaceScan(blob);
-      } catch (error: any) {
-        const errorMessage = error?.message || '';
-        const errorData = (error as any)?.errorData || {};
-        const statusCode = (error as any)?.statusCode;
-        
-        // Check for "Face already registered" error in various formats
-        // The API returns: { success: false, statusCode: 500, message: "Face already registered", errorData: {...} }
-        const isFaceAlreadyRegistered = 
-          errorMessage.includes('Face already registered') || 
-          errorMessage.includes('already registered') ||
-          errorData?.message?.includes('Face already registered') ||
-          (statusCode === 500 && errorMessage.includes('Face already registered'));
-        
-        if (isFaceAlreadyRegistered) {
+        const response = await apiService.uploadFaceScan(video ? { image: blob, video } : blob, metadata, upload);
+        events.stepComplete({ step: 'face_scan', response, image: blob, metadata });
+      } catch (error) {
+        // Cancelling is the user's choice, and a registered face is resolved with Retry; neither ends the flow
+        if (!isKycError(error, KycErrorCode.ABORTED) && !isKycError(error, KycErrorCode.FACE_ALREADY_REGISTERED)) {
+          events.error(toKycError(error, 'face'));
+        }
+        if (isKycError(error, KycErrorCode.FACE_ALREADY_REGISTERED)) {
           setShowRetryButton(true);
           setToast({
             message: 'Face already registered. Click Retry to register again.',
             type: 'warning',
           });
           setState(prev => ({ ...prev, loading: false, allStepsCompleted: false, showDocumentUpload: false }));
-          // Throw a special error to prevent continuing to document upload
-          const faceRegisteredError = new Error('FACE_ALREADY_REGISTERED');
-          (faceRegisteredError as any).isFaceAlreadyRegistered = true;
-          throw faceRegisteredError;
         }
+        // useFaceScan branches on the error code to stop before document upload
         throw error;
       }
     },
@@ -64,43 +125,69 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
         onComplete(imageData);
       }
     },
-  });
+  }, { assets: faceMeshAssets, deviceIntegrity: integrityReport, livenessFallback, allowSelfieUpload, recordLiveness });
+  const livenessBlocked = livenessFallback === 'block' && state.livenessFailed;
+
+  useEffect(() => {
+    if (!integrityBlocked || integrityReportedRef.current) return;
+    integrityReportedRef.current = true;
+    stopCamera();
+    events.error(new DeviceIntegrityError(undefined, integrityReport));
+  }, [integrityBlocked, integrityReport, events, stopCamera]);
+
+  useEffect(() => {
+    if (!livenessBlocked || livenessReportedRef.current) return;
+    livenessReportedRef.current = true;
+    stopCamera();
+    events.error(new LivenessUnavailableError(undefined, LivenessFallbackReason.MODEL_UNAVAILABLE));
+  }, [livenessBlocked, events, stopCamera]);
   
   useEffect(() => {
     const checkSession = async () => {
-      if (!apiService) return;
+      // Wait for uploads queued by an earlier visit; they can move the session to another step
+      if (!apiService || resumingUploads) return;
       
       try {
         const statusResponse = await apiService.getSessionStatus();
-        const { completed_steps, next_step, status } = statusResponse.data;
-        
-        // Check if session is active
-        if (status !== 'ACTIVE') {
-          throw new Error('Session expired or inactive');
-        }
+        const step = resolveKycStep(statusResponse.data);
         
         // Check if KYC is completed
-        if (status === 'COMPLETED' || completed_steps.includes(COMPLETED_STEPS.COMPLETED)) {
+        if (step === COMPLETED_STEPS.COMPLETED) {
           setKycCompleted(true);
+          events.complete(statusResponse.data);
           return;
         }
         
+        // Check if session is active
+        if (statusResponse.data.status !== 'ACTIVE') {
+          throw new SessionExpiredError('Session expired or inactive');
+        }
+        
         // If face_scan is already completed, skip to document upload
-        if (completed_steps.includes(COMPLETED_STEPS.FACE)) {
+        if (step === COMPLETED_STEPS.DOCS) {
           setState(prev => ({ ...prev, showDocumentUpload: true }));
           return;
         }
         
-        // If next_step is not face_scan, redirect accordingly
-        if (next_step !== COMPLETED_STEPS.FACE && next_step !== COMPLETED_STEPS.INITIATED) {
-          if (next_step === COMPLETED_STEPS.DOCS) {
-            setState(prev => ({ ...prev, showDocumentUpload: true }));
-            return;
-          }
+        const { device_integrity: serverIntegrity, liveness_fallback: serverFallback, allow_selfie_upload: serverSelfieUpload } = statusResponse.data;
+        if (serverIntegrity === 'block' || serverIntegrity === 'report') {
+          setServerDeviceIntegrity(serverIntegrity);
+        }
+        if (serverFallback === 'block' || serverFallback === 'allow' || serverFallback === 'video') {
+          setServerLivenessFallback(serverFallback);
+        }
+        if (typeof serverSelfieUpload === 'boolean') {
+          setServerAllowSelfieUpload(serverSelfieUpload);
+        }
+        
+        // Use the server's challenge sequence when it provides one
+        if (statusResponse.data.liveness) {
+          configureLiveness(statusResponse.data.liveness);
         }
         
         setSessionError(null);
       } catch (error: any) {
+        events.error(toKycError(error, 'status'));
         const message = error.message || 'Session expired or inactive';
         setSessionError(message);
         setTimeout(() => {
@@ -110,7 +197,7 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
     };
     
     checkSession();
-  }, [apiService, navigate, setState]);
+  }, [apiService, resumingUploads, events, navigate, setState, configureLiveness]);
 
   useEffect(() => {
     setState(prev => ({ ...prev, cameraReady }));
@@ -153,34 +240,9 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
     try {
       await apiService.retrySession();
       
-      // Reset face scan state
+      // Start the face scan over without leaving the page, which holds the only copy of the credentials
       stopCamera();
-      setState({
-        cameraReady: false,
-        livenessStage: 'CENTER',
-        livenessReady: false,
-        livenessFailed: false,
-        modelLoading: true,
-        modelLoaded: false,
-        livenessInstruction: 'Look straight at the camera',
-        loading: false,
-        allStepsCompleted: false,
-        capturedImage: null,
-        showDocumentUpload: false,
-      });
-      
-      refs.centerHold.current = 0;
-      refs.leftHold.current = 0;
-      refs.rightHold.current = 0;
-      refs.snapTriggered.current = false;
-      refs.lastResultsAt.current = 0;
-      refs.modelLoaded.current = false;
-      refs.livenessFailed.current = false;
-      
-      // Reload to restart face scan
-      setTimeout(() => {
-        window.location.reload();
-      }, 500);
+      onRestart();
     } catch (error: any) {
       setIsRetrying(false);
       setShowRetryButton(true);
@@ -193,33 +255,13 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
 
   const handleRestart = () => {
     stopCamera();
-    setState({
-      cameraReady: false,
-      livenessStage: 'CENTER',
-      livenessReady: false,
-      livenessFailed: false,
-      modelLoading: true,
-      modelLoaded: false,
-      livenessInstruction: 'Look straight at the camera',
-      loading: false,
-      allStepsCompleted: false,
-      capturedImage: null,
-      showDocumentUpload: false,
-    });
-    
-    refs.centerHold.current = 0;
-    refs.leftHold.current = 0;
-    refs.rightHold.current = 0;
-    refs.snapTriggered.current = false;
-    refs.lastResultsAt.current = 0;
-    refs.modelLoaded.current = false;
-    refs.livenessFailed.current = false;
-    
-    setTimeout(() => {
-      window.location.reload();
-    }, 100);
+    onRestart();
   };
 
+  const livenessDone = state.livenessStage.id === DONE_STAGE.id;
+  const recordsVideoSelfie = state.livenessFailed && livenessFallback === 'video';
+  const currentStageIndex = state.livenessSequence.findIndex(stage => stage.id === state.livenessStage.id);
+
   // Show KYC completion message
   if (kycCompleted) {
     return (
@@ -245,6 +287,9 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
   if (state.showDocumentUpload) {
     return (
       <DocumentUploadModal
+        documentTypes={documentTypes}
+        mrzRecognizer={mrzRecognizer}
+        barcodeDecoder={barcodeDecoder}
         onComplete={(_file, _docType) => {
           if (onComplete && state.capturedImage) {
             onComplete(state.capturedImage);
@@ -270,6 +315,53 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
     );
   }
 
+  if (integrityBlocked) {
+    return (
+      <div className="fixed inset-0 bg-black p-5 z-[1000] flex items-center justify-center font-sans overflow-y-auto custom__scrollbar">
+        <div className="max-w-[400px] w-full mx-auto bg-[#0b0f17] rounded-2xl p-6 shadow-xl">
+          <div className="text-center">
+            <h2 className="m-0 mb-4 text-[26px] font-bold text-red-500">
+              Camera Not Supported
+            </h2>
+            <p className="text-[#e5e7eb] mb-4">
+              This camera can't be used for verification. Please use your device's built-in camera.
+            </p>
+            <p className="text-[#9ca3af] text-sm">
+              Close camera apps such as OBS or ManyCam, then restart the verification.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (livenessBlocked) {
+    return (
+      <div className="fixed inset-0 bg-black p-5 z-[1000] flex items-center justify-center font-sans overflow-y-auto custom__scrollbar">
+        <div className="max-w-[400px] w-full mx-auto bg-[#0b0f17] rounded-2xl p-6 shadow-xl">
+          <div className="text-center">
+            <h2 className="m-0 mb-4 text-[26px] font-bold text-red-500">
+              Liveness Check Unavailable
+            </h2>
+            <p className="text-[#e5e7eb] mb-4">
+              The liveness check couldn't start on this device, so verification can't continue.
+            </p>
+            <p className="text-[#9ca3af] text-sm mb-4">
+              Check your connection and restart, or continue on a recent version of Chrome or Safari.
+            </p>
+            <button
+              type="button"
+              onClick={handleRestart}
+              className="py-3 px-4 rounded-[10px] text-[15px] font-semibold border-none w-full bg-[#374151] text-[#e5e7eb] cursor-pointer hover:bg-[#4b5563] transition-colors"
+            >
+              Restart
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <>
       {toast && (
@@ -296,7 +388,7 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
           )}
           {state.modelLoading && !state.livenessFailed && (
             <div className="bg-[#1f2937] text-[#e5e7eb] py-3.5 px-4 rounded-xl text-sm border border-[#374151] text-left">
-              Loading face detection model...
+              Loading face detection model{state.modelProgress !== null ? ` ${state.modelProgress}%` : '...'}
             </div>
           )}
           
@@ -315,25 +407,76 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
               <circle cx="50" cy="50" r="44" fill="none" stroke="#22c55e" strokeWidth="2" strokeDasharray="1 3" />
             </svg>
           </div>
+
+          {cameraError && (
+            <CameraErrorPanel error={cameraError} onRetry={() => startCamera().catch(() => { })} />
+          )}
+
+          {cameraError && allowSelfieUpload && livenessFallback !== 'block' && (
+            <>
+              <input
+                ref={selfieInputRef}
+                type="file"
+                accept={livenessFallback === 'video' ? 'video/*' : 'image/*'}
+                capture="user"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) uploadSelfieFile(file);
+                }}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => selfieInputRef.current?.click()}
+                disabled={state.loading}
+                className="py-3 px-4 rounded-[10px] text-[15px] font-semibold border-2 border-dashed border-[#374151] bg-[#0f172a] text-[#e5e7eb] cursor-pointer hover:border-[#4b5563] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {state.loading
+                  ? "Uploading..."
+                  : livenessFallback === 'video' ? "Record a Video Selfie Instead" : "Take a Selfie Photo Instead"}
+              </button>
+            </>
+          )}
+
+          {state.livenessFailed && !cameraError && (
+            <div className="bg-[#1f2937] text-[#e5e7eb] py-3.5 px-4 rounded-xl text-sm border border-[#374151] text-left">
+              <div className="mb-1.5">
+                {livenessFallback === 'video'
+                  ? "The liveness check is unavailable. Record a short video selfie instead and follow the prompts."
+                  : "The liveness check is unavailable. Your photo will be submitted without it."}
+              </div>
+              <div className="font-semibold text-white">{state.livenessInstruction}</div>
+            </div>
+          )}
+
+          <CameraPicker
+            cameras={cameras}
+            value={cameraId}
+            onChange={(deviceId) => selectCamera(deviceId).catch(() => { })}
+            disabled={state.loading}
+          />
           
           {!state.livenessFailed && (
             <div className="bg-gradient-to-b from-[rgba(17,24,39,0.9)] to-[rgba(17,24,39,0.6)] text-[#e5e7eb] p-4 rounded-2xl text-base border border-[#30363d]">
               <div className="font-bold mb-2.5 text-[22px] text-white">Liveness Check</div>
               <div className="mb-2.5 text-base">{state.livenessInstruction}</div>
               <div className="grid gap-2.5 text-lg">
-                <div className={state.livenessStage === "CENTER" || state.livenessStage === "LEFT" || state.livenessStage === "RIGHT" || state.livenessStage === "DONE" ? "opacity-100" : "opacity-40"}>
-                  1. Look Straight
-                </div>
-                <div className={state.livenessStage === "RIGHT" || state.livenessStage === "DONE" ? "opacity-100" : "opacity-40"}>
-                  2. Turn your face right
-                </div>
-                <div className={state.livenessStage === "DONE" ? "opacity-100" : "opacity-30"}>
-                  3. Turn your face left
-                </div>
+                {state.livenessSequence
+                  .filter(stage => stage.id !== DONE_STAGE.id)
+                  .map((stage, index) => (
+                    <div key={stage.id} className={index <= currentStageIndex ? "opacity-100" : "opacity-40"}>
+                      {index + 1}. {stage.label}
+                    </div>
+                  ))}
               </div>
             </div>
           )}
           
+          {state.uploadProgress !== null && (
+            <UploadProgress progress={state.uploadProgress} queued={state.uploadQueued} onCancel={cancelUpload} />
+          )}
+
           {showRetryButton && (
             <button
               type="button"
@@ -347,19 +490,23 @@ function FaceScanModal({ onComplete }: FaceScanModalProps) {
           
           <button
             type="button"
-            disabled={!state.cameraReady || state.loading || (!state.livenessFailed && state.livenessStage !== "DONE") || showRetryButton}
-            onClick={handleFaceCapture}
+            disabled={!state.cameraReady || state.loading || state.videoSelfieRecording || (!state.livenessFailed && !livenessDone) || showRetryButton}
+            onClick={recordsVideoSelfie ? recordVideoSelfie : handleFaceCapture}
             className={`py-3.5 px-4 rounded-xl text-base font-bold border-none transition-colors ${
-              state.cameraReady && !state.loading && (state.livenessFailed || state.livenessStage === "DONE") && !showRetryButton
+              state.cameraReady && !state.loading && !state.videoSelfieRecording && (state.livenessFailed || livenessDone) && !showRetryButton
                 ? "bg-[#22c55e] text-[#0b0f17] cursor-pointer hover:bg-[#16a34a]"
                 : "bg-[#374151] text-[#e5e7eb] cursor-not-allowed"
             }`}
           >
-            {state.loading
-              ? "Capturing..."
-              : (state.livenessFailed || state.livenessStage === "DONE")
-                ? "Capture & Continue"
-                : "Complete steps to continue"}
+            {state.videoSelfieRecording
+              ? "Recording..."
+              : state.loading
+                ? "Capturing..."
+                : recordsVideoSelfie
+                  ? "Record Video Selfie"
+                  : (state.livenessFailed || livenessDone)
+                    ? "Capture & Continue"
+                    : "Complete steps to continue"}
           </button>
           
           <button
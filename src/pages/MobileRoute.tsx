@@ -1,50 +1,124 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { isMobileDevice } from '../utils/deviceDetection';
 import FaceScanModal from './FaceScanModal';
 import { KycProvider } from '../contexts/KycContext';
+import { KycApiService } from '../services/kycApiService';
+import { toKycError } from '../services/kycErrors';
+import type { FaceMeshAssetOptions } from '../services/mediapipeAssets';
+import type { DocumentTypeDefinition } from '../services/documentTypes';
+import type { MrzTextRecognizer } from '../services/mrz';
+import type { BarcodeDecoder } from '../services/aamva';
+import type { ImageProcessingConfig } from '../services/imageProcessing';
+import type { DeviceIntegrityPolicy } from '../services/deviceIntegrity';
+import type { LivenessFallbackPolicy } from '../services/livenessFallback';
+import type { VideoSelfieOptions } from '../services/videoSelfie';
 import '../index.css';
 
 interface MobileRouteProps {
   onClose?: () => void;
   onNavigate?: (view: 'qr' | 'mobileroute') => void;
+  /** Accept legacy links that carry the server key in the query string */
+  allowQueryServerKey?: boolean;
+  /** Where the face detection model is loaded from */
+  faceMeshAssets?: FaceMeshAssetOptions;
+  /** Documents offered in the document step */
+  documentTypes?: DocumentTypeDefinition[];
+  /** OCR for document MRZs */
+  mrzRecognizer?: MrzTextRecognizer;
+  /** PDF417 decoder for driving licence barcodes */
+  barcodeDecoder?: BarcodeDecoder;
+  /** Resize/compress overrides for uploaded images when the route runs standalone */
+  imageProcessing?: ImageProcessingConfig | false;
+  /** Whether a virtual or injected camera blocks the scan or is only reported */
+  deviceIntegrity?: DeviceIntegrityPolicy;
+  /** What the face scan falls back to when the liveness model can't run */
+  livenessFallback?: LivenessFallbackPolicy;
+  /** Accept a selfie file from the camera app when the camera can't be opened */
+  allowSelfieUpload?: boolean;
+  /** Record the liveness check and upload the video with the face scan */
+  recordLiveness?: boolean | VideoSelfieOptions;
 }
 
 // Inner component that uses the context
-function MobileRouteContent({ onClose, onComplete }: { onClose?: () => void; onComplete?: (image: string) => void }) {
-  return <FaceScanModal onClose={onClose} onComplete={onComplete} />;
+function MobileRouteContent({ onClose, ...options }: { onClose: () => void } & Pick<MobileRouteProps, 'faceMeshAssets' | 'documentTypes' | 'mrzRecognizer' | 'barcodeDecoder' | 'deviceIntegrity' | 'livenessFallback' | 'allowSelfieUpload' | 'recordLiveness'>) {
+  // Restarting remounts the scan instead of reloading: after a handoff the
+  // access token lives only in memory, and a reload would lose it
+  const [attempt, setAttempt] = useState(0);
+  return <FaceScanModal key={attempt} onClose={onClose} onRestart={() => setAttempt((n) => n + 1)} {...options} />;
 }
 
-function MobileRoute({ onClose, onNavigate }: MobileRouteProps = {}) {
+function MobileRoute({ onClose, onNavigate, allowQueryServerKey = false, faceMeshAssets, documentTypes, mrzRecognizer, barcodeDecoder, imageProcessing, deviceIntegrity, livenessFallback, allowSelfieUpload, recordLiveness }: MobileRouteProps = {}) {
   const [config, setConfig] = useState<{
     apiBaseUrl: string;
     sessionId: string;
-    serverKey: string;
+    serverKey?: string;
+    accessToken?: string;
   } | null>(null);
+  const [handoffError, setHandoffError] = useState<string | null>(null);
+  // Same condition as the redeem branch below, so the spinner never outlives a link that can't be redeemed
+  const [redeeming, setRedeeming] = useState(() => {
+    const searchParams = new URLSearchParams(window.location.search);
+    return Boolean(
+      isMobileDevice() &&
+      searchParams.get('sessionId') &&
+      (searchParams.get('apiBaseUrl') || searchParams.get('apiUrl')) &&
+      new URLSearchParams(window.location.hash.slice(1)).get('handoff')
+    );
+  });
+  const redeemStartedRef = useRef(false);
 
   useEffect(() => {
-    if (!isMobileDevice() && onNavigate) {
-      onNavigate('qr');
+    // Leave the link untouched on a desktop: its handoff token is single-use
+    // and must still work once the page is opened on the phone
+    if (!isMobileDevice()) {
+      onNavigate?.('qr');
       return;
     }
 
     // If accessed standalone (via URL), get config from URL params
     const searchParams = new URLSearchParams(window.location.search);
+    const hashParams = new URLSearchParams(window.location.hash.slice(1));
     const sessionId = searchParams.get('sessionId');
     const apiBaseUrl = searchParams.get('apiBaseUrl') || searchParams.get('apiUrl') || '';
+    const handoffToken = hashParams.get('handoff');
     const serverKey = searchParams.get('serverKey') || '';
 
-    if (sessionId && apiBaseUrl && serverKey) {
+    const scrubUrl = () => {
+      // Keep credentials out of browser history once they have been read
+      searchParams.delete('serverKey');
+      const query = searchParams.toString();
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    };
+
+    if (sessionId && apiBaseUrl && handoffToken) {
+      scrubUrl();
+      // Tokens are single-use; never redeem twice (e.g. StrictMode re-running effects)
+      if (redeemStartedRef.current) return;
+      redeemStartedRef.current = true;
+      new KycApiService({ apiBaseUrl, sessionId, deviceType: 'mobile' })
+        .redeemHandoffToken(handoffToken)
+        .then((response) => {
+          setConfig({
+            apiBaseUrl,
+            sessionId,
+            accessToken: response.data.access_token,
+          });
+        })
+        .catch((error) => {
+          setHandoffError(toKycError(error, 'redeem').message);
+        })
+        .finally(() => setRedeeming(false));
+    } else if (sessionId && apiBaseUrl && serverKey && allowQueryServerKey) {
+      scrubUrl();
       setConfig({
         apiBaseUrl,
         sessionId,
         serverKey,
       });
     } else if (sessionId) {
-      // Try to get from localStorage or use defaults
-      // For now, we'll need these to be passed via URL
-      console.error('Missing required parameters: apiBaseUrl and serverKey must be in URL');
+      console.error('Missing required parameters: open this page from the QR code on your desktop');
     }
-  }, [onNavigate]);
+  }, [onNavigate, allowQueryServerKey]);
 
   const handleClose = () => {
     if (onClose) {
@@ -52,14 +126,18 @@ function MobileRoute({ onClose, onNavigate }: MobileRouteProps = {}) {
     }
   };
 
-  const handleComplete = (capturedImage: string) => {
-    // Handle completion - send captured image to backend or parent
-    console.log('Face capture completed with image:', capturedImage.substring(0, 50) + '...');
-    // You can emit an event, call a callback, or navigate here
-  };
-
   if (!isMobileDevice()) {
-    return null;
+    if (onNavigate) return null;
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-[1000]">
+        <div className="bg-white p-6 rounded-lg text-center max-w-md mx-4">
+          <p className="text-gray-900 mb-2">Open This Link on Your Phone</p>
+          <p className="text-sm text-gray-600">
+            Verification continues on a mobile device. Scan the QR code with your phone, or open this link there.
+          </p>
+        </div>
+      </div>
+    );
   }
 
   // If we have config from URL (standalone mode), wrap in provider
@@ -69,9 +147,11 @@ function MobileRoute({ onClose, onNavigate }: MobileRouteProps = {}) {
         apiBaseUrl={config.apiBaseUrl}
         sessionId={config.sessionId}
         serverKey={config.serverKey}
+        accessToken={config.accessToken}
         deviceType="mobile"
+        imageProcessing={imageProcessing}
       >
-        <MobileRouteContent onClose={handleClose} onComplete={handleComplete} />
+        <MobileRouteContent onClose={handleClose} faceMeshAssets={faceMeshAssets} documentTypes={documentTypes} mrzRecognizer={mrzRecognizer} barcodeDecoder={barcodeDecoder} deviceIntegrity={deviceIntegrity} livenessFallback={livenessFallback} allowSelfieUpload={allowSelfieUpload} recordLiveness={recordLiveness} />
       </KycProvider>
     );
   }
@@ -81,7 +161,26 @@ function MobileRoute({ onClose, onNavigate }: MobileRouteProps = {}) {
   if (onNavigate) {
     // This means it's being used within the SDK component
     // The provider should already be there, but we'll render the content directly
-    return <MobileRouteContent onClose={handleClose} onComplete={handleComplete} />;
+    return <MobileRouteContent onClose={handleClose} faceMeshAssets={faceMeshAssets} documentTypes={documentTypes} mrzRecognizer={mrzRecognizer} barcodeDecoder={barcodeDecoder} deviceIntegrity={deviceIntegrity} livenessFallback={livenessFallback} allowSelfieUpload={allowSelfieUpload} recordLiveness={recordLiveness} />;
+  }
+
+  if (redeeming) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black z-[1000]">
+        <p className="text-[#e5e7eb] text-sm">Connecting securely...</p>
+      </div>
+    );
+  }
+
+  if (handoffError) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-[1000]">
+        <div className="bg-white p-6 rounded-lg text-center max-w-md mx-4">
+          <p className="text-red-600 mb-2">Link Expired</p>
+          <p className="text-sm text-gray-600">{handoffError}</p>
+        </div>
+      </div>
+    );
   }
 
   // Fallback: show error if no config
@@ -90,7 +189,7 @@ function MobileRoute({ onClose, onNavigate }: MobileRouteProps = {}) {
       <div className="bg-white p-6 rounded-lg text-center max-w-md mx-4">
         <p className="text-red-600 mb-2">Missing Configuration</p>
         <p className="text-sm text-gray-600">
-          Please ensure the URL includes sessionId, apiBaseUrl, and serverKey parameters.
+          Please open this page by scanning the QR code on your desktop.
         </p>
       </div>
     </div>
@@ -1,7 +1,22 @@
 import { useState, useEffect } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
+import { useKycContext } from '../contexts/KycContext';
+import { useSessionHandoff } from '../features/handoff/hooks/useSessionHandoff';
+import type { HandoffMode, HandoffProgress } from '../features/handoff/types';
+import type { KycApiService } from '../services/kycApiService';
+import { toKycError } from '../services/kycErrors';
+import type { SessionTransport } from '../services/sessionTransport';
 import '../index.css';
 
+const HANDOFF_STEPS: Array<{ progress: HandoffProgress; label: string }> = [
+  { progress: 'phone_connected', label: 'Phone connected' },
+  { progress: 'face_captured', label: 'Face captured' },
+  { progress: 'documents_uploaded', label: 'Documents uploaded' },
+  { progress: 'completed', label: 'Verification complete' },
+];
+
+const HANDOFF_ORDER: HandoffProgress[] = ['waiting', ...HANDOFF_STEPS.map(step => step.progress)];
+
 interface QRCodePageProps {
   onClose?: () => void;
   onNavigate?: (view: 'qr' | 'mobileroute') => void;
@@ -9,11 +24,56 @@ interface QRCodePageProps {
   sessionId?: string;
   apiBaseUrl?: string;
   serverKey?: string;
+  sessionTransport?: (apiService: KycApiService) => SessionTransport;
+  handoffMode?: HandoffMode;
 }
 
-function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-rebuild.vercel.app', sessionId, apiBaseUrl, serverKey }: QRCodePageProps = {}) {
+function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-rebuild.vercel.app', sessionId, apiBaseUrl, serverKey, sessionTransport, handoffMode = 'token' }: QRCodePageProps = {}) {
   const [qrUrl, setQrUrl] = useState<string>('');
   const [copied, setCopied] = useState<boolean>(false);
+  const [handoffToken, setHandoffToken] = useState<string | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const { apiService, events } = useKycContext();
+  const { state: handoff, watching, refresh } = useSessionHandoff(apiService, {
+    createTransport: sessionTransport,
+    onCompleted: (status) => events.complete(status),
+  });
+  const handoffIndex = HANDOFF_ORDER.indexOf(handoff.progress);
+
+  const handoffDone = handoff.progress === 'completed';
+
+  useEffect(() => {
+    if (handoffMode !== 'token' || !apiService || handoffDone) return;
+
+    let cancelled = false;
+    let renewId: number | null = null;
+
+    const issue = async () => {
+      try {
+        const response = await apiService.createHandoffToken();
+        if (cancelled) return;
+        setHandoffToken(response.data.token);
+        setTokenError(null);
+        // Re-issue shortly before expiry so the QR code stays scannable
+        const expiresAt = Date.parse(response.data.expires_at);
+        const renewIn = Number.isNaN(expiresAt) ? 60000 : expiresAt - Date.now() - 10000;
+        renewId = window.setTimeout(issue, Math.max(5000, renewIn));
+      } catch (error) {
+        if (cancelled) return;
+        setTokenError(toKycError(error, 'handoff').message);
+        renewId = window.setTimeout(issue, 10000);
+      }
+    };
+
+    issue();
+
+    return () => {
+      cancelled = true;
+      if (renewId) {
+        window.clearTimeout(renewId);
+      }
+    };
+  }, [apiService, handoffMode, handoffDone]);
 
   useEffect(() => {
     // Get search params from current URL
@@ -26,16 +86,29 @@ function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-re
     if (apiBaseUrl) {
       searchParams.set('apiBaseUrl', apiBaseUrl);
     }
-    if (serverKey) {
-      searchParams.set('serverKey', serverKey);
+
+    let fragment = '';
+    if (handoffMode === 'query') {
+      if (serverKey) {
+        searchParams.set('serverKey', serverKey);
+      }
+    } else {
+      // Never forward a server key picked up from the host page URL
+      searchParams.delete('serverKey');
+      if (!handoffToken) {
+        setQrUrl('');
+        return;
+      }
+      // Fragments are not sent to servers, keeping the token out of access logs
+      fragment = `#${new URLSearchParams({ handoff: handoffToken }).toString()}`;
     }
     
     const mobileRoute = '/mobileroute';
     const queryString = searchParams.toString();
-    const fullUrl = `${mobileBaseUrl}${mobileRoute}${queryString ? `?${queryString}` : ''}`;
+    const fullUrl = `${mobileBaseUrl}${mobileRoute}${queryString ? `?${queryString}` : ''}${fragment}`;
     
     setQrUrl(fullUrl);
-  }, [mobileBaseUrl, sessionId, apiBaseUrl, serverKey]);
+  }, [mobileBaseUrl, sessionId, apiBaseUrl, serverKey, handoffMode, handoffToken]);
 
   const handleCopyUrl = async () => {
     if (qrUrl) {
@@ -56,6 +129,11 @@ function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-re
   };
 
   const handleRefresh = () => {
+    // Without a session to watch (standalone page) fall back to reloading
+    if (watching) {
+      refresh();
+      return;
+    }
     window.location.reload();
   };
 
@@ -85,6 +163,12 @@ function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-re
             Scan this QR on your phone to capture your face and document
           </p>
           
+          {!qrUrl && handoffMode === 'token' && (
+            <p className="m-0 text-white text-sm opacity-80">
+              {tokenError ? `Could not create a secure link: ${tokenError}. Retrying...` : 'Creating secure link...'}
+            </p>
+          )}
+
           {qrUrl && (
             <div className="flex justify-center items-center p-3 sm:p-4 bg-black rounded-xl border-2 border-white shadow-lg">
               <QRCodeSVG
@@ -122,12 +206,45 @@ function QRCodePage({ onClose, onNavigate, mobileBaseUrl = 'https://astra-sdk-re
             </div>
           </div>
 
+          {(watching || handoff.progress === 'completed') && (
+            <div className="w-full text-left p-3 sm:p-4 bg-white/5 rounded-lg border border-white/10">
+              <p className="m-0 mb-2 text-white text-sm font-semibold">
+                {handoff.progress === 'waiting' ? 'Waiting for your phone...' : 'Progress'}
+              </p>
+              <div className="grid gap-1.5">
+                {HANDOFF_STEPS.map((step) => (
+                  <div
+                    key={step.progress}
+                    className={`flex items-center gap-2 text-sm text-white ${HANDOFF_ORDER.indexOf(step.progress) <= handoffIndex ? 'opacity-100' : 'opacity-40'}`}
+                  >
+                    <span>{HANDOFF_ORDER.indexOf(step.progress) <= handoffIndex ? '✔' : '•'}</span>
+                    <span>{step.label}</span>
+                  </div>
+                ))}
+              </div>
+              {handoff.error && (
+                <p className="m-0 mt-2 text-xs text-[#fca5a5]">
+                  Connection issue, still retrying: {handoff.error.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {handoff.progress === 'completed' ? (
+            <button 
+              className="w-full py-3 sm:py-4 px-6 bg-gradient-to-r from-[#10b981] to-[#059669] border-none rounded-lg text-white text-sm sm:text-base font-semibold cursor-pointer transition-all hover:-translate-y-0.5 active:translate-y-0" 
+              onClick={handleClose}
+            >
+              Done
+            </button>
+          ) : (
           <button 
             className="w-full py-3 sm:py-4 px-6 bg-gradient-to-r from-[#FF842D] to-[#FF2D55] border-none rounded-lg text-white text-sm sm:text-base font-semibold cursor-pointer transition-all hover:-translate-y-0.5 hover:shadow-[0_4px_12px_rgba(255,107,53,0.4)] active:translate-y-0" 
             onClick={handleRefresh}
           >
-            I've completed on mobile - Refresh
+            {watching ? "Check status now" : "I've completed on mobile - Refresh"}
           </button>
+          )}
         </div>
       </div>
     </div>
@@ -79,10 +79,12 @@ export class ApiClient {
         baseURL: this.config.baseURL,
         timeout: this.config.timeout,
         headers: this.config.headers,
+        credentials: this.config.credentials,
       });
 
-    if (this.config.retries > 0) {
-      return retryRequest(requestFn, this.config.retries, this.config.retryDelay);
+    const retries = options.retries ?? this.config.retries;
+    if (retries > 0) {
+      return retryRequest(requestFn, retries, this.config.retryDelay);
     }
 
     return requestFn();
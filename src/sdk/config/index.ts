@@ -12,6 +12,7 @@ export const DEFAULT_CONFIG: Required<Omit<AstraSDKConfig, 'apiKey'>> = {
   },
   retries: 3,
   retryDelay: 1000,
+  credentials: 'same-origin',
 };
 
 export function mergeConfig(userConfig: AstraSDKConfig): Required<AstraSDKConfig> {
@@ -25,6 +26,7 @@ export function mergeConfig(userConfig: AstraSDKConfig): Required<AstraSDKConfig
     },
     retries: userConfig.retries ?? DEFAULT_CONFIG.retries,
     retryDelay: userConfig.retryDelay ?? DEFAULT_CONFIG.retryDelay,
+    credentials: userConfig.credentials ?? DEFAULT_CONFIG.credentials,
   };
 }
 
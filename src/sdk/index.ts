@@ -75,7 +75,7 @@ export class AstraSDK {
   }
 }
 
-export type { AstraSDKConfig, ApiResponse, RequestOptions, ApiError } from './types';
+export type { AstraSDKConfig, ApiResponse, RequestOptions, ApiError, UploadProgress } from './types';
 export { AstraSDKError } from './types';
 
 export { ApiClient } from './client';
@@ -83,15 +83,133 @@ export { ApiClient } from './client';
 // Export KYC components
 export { KycFlow } from '../components/KycFlow';
 export type { KycFlowProps } from '../components/KycFlow';
+export type { KycLifecycleCallbacks, KycStepCompleteEvent, KycResult } from '../contexts/KycContext';
 
 // Export KYC API service
-export { KycApiService } from '../services/kycApiService';
+export { KycApiService, DOCUMENT_SIDE_FIELDS, FACE_VIDEO_FIELD } from '../services/kycApiService';
 export type { 
   KycApiConfig, 
   SessionStatusResponse, 
   FaceScanResponse, 
-  DocumentUploadResponse 
+  DocumentUploadResponse,
+  DocumentSide,
+  DocumentImages,
+  DocumentCaptureMetadata,
+  FaceCaptureMetadata,
+  FaceScanMedia,
+  UploadOptions,
+  SessionStatusOptions,
+  SessionStatusListener,
+  ResumedUpload,
+  ResumedUploadListener,
+  RetrySessionResponse,
+  HandoffTokenResponse,
+  HandoffRedeemResponse
 } from '../services/kycApiService';
 
+// Export KYC error taxonomy
+export {
+  KycErrorCode,
+  KycError,
+  SessionExpiredError,
+  SessionCompletedError,
+  FaceAlreadyRegisteredError,
+  LivenessRejectedError,
+  DocumentRejectedError,
+  UnauthorizedError,
+  RateLimitedError,
+  KycServerError,
+  KycNetworkError,
+  KycTimeoutError,
+  HandoffTokenInvalidError,
+  UnsupportedFileError,
+  KycAbortedError,
+  DeviceIntegrityError,
+  CameraAccessError,
+  LivenessUnavailableError,
+  isKycError,
+} from '../services/kycErrors';
+export type { KycOperation } from '../services/kycErrors';
+
+// Export headless KYC session controller
+export { KycSession, resolveKycStep } from '../services/kycSession';
+export type { KycStep, KycSessionStatus, KycSessionState, KycSessionListener, KycStepGuard, KycSessionOptions } from '../services/kycSession';
+
+// Export desktop/mobile handoff transports
+export { PollingTransport, EventSourceTransport, WebSocketTransport, parseSessionMessage } from '../services/sessionTransport';
+export type { SessionTransport, SessionTransportHandlers, SessionUpdate, SessionStatusData, PollingTransportOptions } from '../services/sessionTransport';
+export type { HandoffMode, HandoffProgress } from '../features/handoff/types';
+
+// Export liveness challenge engine
+export {
+  LivenessChallengeEngine,
+  CENTER_STAGE,
+  DONE_STAGE,
+  registerLivenessChallenge,
+  getLivenessChallengeIds,
+  createLivenessChallenge,
+  createLivenessSequence,
+  TurnHeadChallenge,
+  NodHeadChallenge,
+  BlinkChallenge,
+  SmileChallenge,
+  OpenMouthChallenge,
+  MoveCloserChallenge,
+  BlinkDetector,
+  SpoofDetector,
+  DEFAULT_SPOOF_WEIGHTS,
+  estimateHeadPose,
+  headPoseGuidance,
+} from '../services/liveness';
+export type { LivenessStage, LivenessFrame, LivenessChallenge, LivenessChallengeFactory, ChallengeResult, FaceLandmark, LivenessEngineOptions, LivenessSequenceOptions, BlinkDetectorOptions, BlinkSignal, SpoofDetectorOptions, SpoofSignal, SpoofCues, SpoofCue, HeadPose, HeadPoseTolerance } from '../services/liveness';
+
+// Export face quality gate
+export { analyzeFaceQuality, FaceQualityIssue, DEFAULT_FACE_QUALITY_THRESHOLDS } from '../services/faceQuality';
+export type { FaceQualityScores, FaceQualityThresholds, FaceQualityReport } from '../services/faceQuality';
+
+// Export MediaPipe asset loading
+export { createAssetResolver, preloadFaceMeshAssets, getFaceMeshAssetFiles, AssetIntegrityError, DEFAULT_FACE_MESH_BASE_URL, FACE_MESH_VERSION } from '../services/mediapipeAssets';
+export type { FaceMeshAssetOptions, AssetLoadProgress, AssetProgressListener } from '../services/mediapipeAssets';
+
+// Export document detection
+export { detectDocument, detectDocumentInFrame, flattenDocument, warpDocument, scaleQuad, toLandscape, DOCUMENT_ASPECT_RATIOS } from '../services/documentDetection';
+export type { Point, DocumentQuad, DocumentDetection, DocumentDetectorOptions } from '../services/documentDetection';
+export { DocumentAutoCapture, DEFAULT_DOCUMENT_AUTO_CAPTURE_OPTIONS } from '../services/documentAutoCapture';
+export type { DocumentAutoCaptureOptions, DocumentAutoCaptureStatus } from '../services/documentAutoCapture';
+
+// Export document type registry
+export { DEFAULT_DOCUMENT_TYPES, DEFAULT_DOCUMENT_ACCEPT, AAMVA_BARCODE, defineDocumentTypes, fromServerDocumentTypes, getDocumentCountries, isAcceptedFile } from '../services/documentTypes';
+export type { DocumentTypeDefinition, DocumentTypeConfig, DocumentMrzSpec, DocumentBarcodeSpec, ServerDocumentType } from '../services/documentTypes';
+
+// Export MRZ reading
+export { readMrz, parseMrz, locateMrz, mrzCheckDigit } from '../services/mrz';
+export type { MrzFormat, MrzFields, MrzResult, MrzRegion, MrzReadResult, MrzTextRecognizer } from '../services/mrz';
+
+// Export licence barcode reading
+export { readAamvaBarcode, parseAamva } from '../services/aamva';
+export type { AamvaLicense, AamvaAddress, AamvaParseResult, AamvaReadResult, BarcodeDecoder } from '../services/aamva';
+
+// Export image processing
+export { processImage, compressCanvas, readJpegInfo, DEFAULT_IMAGE_PROCESSING_OPTIONS, FACE_IMAGE_OPTIONS, DOCUMENT_IMAGE_OPTIONS } from '../services/imageProcessing';
+export type { ImageProcessingOptions, ImageProcessingConfig, ImageOutputFormat, JpegInfo } from '../services/imageProcessing';
+
+// Export offline upload queue
+export { UploadQueue, waitForConnectivity, createIdempotencyKey } from '../services/uploadQueue';
+export type { QueuedUpload, UploadField } from '../services/uploadQueue';
+
+// Export camera device integrity checks
+export { checkDeviceIntegrity, DeviceIntegrityIssue, VIRTUAL_CAMERA_SIGNATURES } from '../services/deviceIntegrity';
+export type { DeviceIntegrityReport, DeviceIntegrityFinding, DeviceIntegrityOptions, DeviceIntegrityPolicy, DeviceFrameTiming, DeviceRisk } from '../services/deviceIntegrity';
+
+// Export camera access and permission diagnostics
+export { CameraManager, CameraErrorKind, classifyCameraError, toCameraError, cameraPermissionHelp } from '../services/cameraManager';
+export type { CameraDevice, CameraFacing, CameraResolution, CameraManagerOptions, CameraPermissionHelp } from '../services/cameraManager';
+
+// Export liveness fallback and video selfie recording
+export { LivenessMode, LivenessFallbackReason, livenessFallbackMode } from '../services/livenessFallback';
+export type { LivenessFallbackPolicy, LivenessModeRecord } from '../services/livenessFallback';
+export { VideoSelfieRecorder, extractVideoFrame, isVideoSelfieSupported, videoSelfieMimeType, LIVENESS_VIDEO_OPTIONS } from '../services/videoSelfie';
+export type { VideoSelfie, VideoSelfieOptions, VideoSelfieMarker, VideoSelfieInfo } from '../services/videoSelfie';
+
 export default AstraSDK;
 
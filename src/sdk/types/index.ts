@@ -6,6 +6,7 @@ export interface AstraSDKConfig {
   headers?: Record<string, string>;
   retries?: number;
   retryDelay?: number;
+  credentials?: RequestCredentials;
 }
 
 export interface RequestOptions {
@@ -13,7 +14,18 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   body?: unknown;
   params?: Record<string, string | number | boolean>;
+  /** Milliseconds before the request fails with `TIMEOUT`; with `onUploadProgress`, counted from the last progress event */
   timeout?: number;
+  retries?: number;
+  /** Aborts the request; an aborted request fails with code `ABORTED` and is not retried */
+  signal?: AbortSignal;
+  /** Reports request body bytes sent. Requests with a listener are sent with XMLHttpRequest, as fetch cannot report upload progress. */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
 }
 
 export interface ApiResponse<T = unknown> {
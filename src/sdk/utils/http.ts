@@ -2,9 +2,94 @@
  * HTTP utility functions
  */
 
-import type { RequestOptions, ApiResponse, ApiError } from '../types';
+import type { RequestOptions, ApiResponse, ApiError, UploadProgress } from '../types';
 import { AstraSDKError } from '../types';
 
+/**
+ * Bodies the browser already knows how to encode. These are passed to fetch
+ * untouched so multipart boundaries and binary payloads survive.
+ */
+function isRawBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === 'string' ||
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+/**
+ * Abort when any of the signals aborts
+ */
+function combineSignals(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const active = signals.filter((signal): signal is AbortSignal => Boolean(signal));
+  if (active.length === 1) return active[0];
+  if (typeof AbortSignal.any === 'function') return AbortSignal.any(active);
+  const controller = new AbortController();
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Send a request with XMLHttpRequest to get upload progress events, and wrap
+ * the result in a Response so it is handled like a fetch response
+ */
+function sendWithProgress(
+  url: string,
+  init: RequestInit & { headers: Headers; signal: AbortSignal },
+  onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    init.headers.forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    const onAbort = () => xhr.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    const settle = () => signal.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+    };
+    xhr.onload = () => {
+      settle();
+      const headers = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+        const index = line.indexOf(':');
+        if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      }
+      // Null-body statuses cannot be constructed with a body
+      const body = [204, 205, 304].includes(xhr.status) ? null : xhr.response;
+      resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers }));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
 export async function makeRequest<T = unknown>(
   url: string,
   options: RequestOptions = {},
@@ -13,6 +98,7 @@ export async function makeRequest<T = unknown>(
     baseURL: string;
     timeout: number;
     headers: Record<string, string>;
+    credentials?: RequestCredentials;
   }
 ): Promise<ApiResponse<T>> {
   const {
@@ -21,6 +107,8 @@ export async function makeRequest<T = unknown>(
     body,
     params,
     timeout = config.timeout,
+    signal,
+    onUploadProgress,
   } = options;
 
   // Build URL with query parameters
@@ -35,22 +123,44 @@ export async function makeRequest<T = unknown>(
   const headers = new Headers({
     ...config.headers,
     ...customHeaders,
-    Authorization: `Bearer ${config.apiKey}`,
   });
+  if (config.apiKey) {
+    headers.set('Authorization', `Bearer ${config.apiKey}`);
+  }
+
+  // With a progress listener the timeout counts from the last progress event,
+  // so a slow upload is not cut off while it is still moving
+  const timeoutController = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const armTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => timeoutController.abort(new DOMException('Request timed out', 'TimeoutError')), timeout);
+  };
+  armTimeout();
 
   // Prepare request options
-  const requestOptions: RequestInit = {
+  const requestOptions: RequestInit & { headers: Headers; signal: AbortSignal } = {
     method,
     headers,
-    signal: AbortSignal.timeout(timeout),
+    credentials: config.credentials,
+    signal: combineSignals([timeoutController.signal, signal]),
   };
 
-  if (body && method !== 'GET') {
-    requestOptions.body = JSON.stringify(body);
+  if (body !== undefined && body !== null && method !== 'GET') {
+    if (body instanceof FormData) {
+      // Let the browser set the multipart boundary
+      headers.delete('Content-Type');
+    }
+    requestOptions.body = isRawBody(body) ? body : JSON.stringify(body);
   }
 
   try {
-    const response = await fetch(urlObj.toString(), requestOptions);
+    const response = onUploadProgress
+      ? await sendWithProgress(urlObj.toString(), requestOptions, (progress) => {
+          armTimeout();
+          onUploadProgress(progress);
+        })
+      : await fetch(urlObj.toString(), requestOptions);
     const responseHeaders: Record<string, string> = {};
     response.headers.forEach((value, key) => {
       responseHeaders[key] = value;
@@ -89,13 +199,18 @@ export async function makeRequest<T = unknown>(
     if (error instanceof AstraSDKError) {
       throw error;
     }
+    if (signal?.aborted) {
+      throw new AstraSDKError('Request aborted', undefined, 'ABORTED');
+    }
     if (error instanceof Error) {
-      if (error.name === 'AbortError') {
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
         throw new AstraSDKError('Request timeout', 408, 'TIMEOUT');
       }
       throw new AstraSDKError(error.message, undefined, 'NETWORK_ERROR');
     }
     throw new AstraSDKError('Unknown error occurred', undefined, 'UNKNOWN_ERROR');
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
@@ -111,6 +226,11 @@ export async function retryRequest<T>(
       return await fn();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+
+      // The caller gave up; don't send it again
+      if (error instanceof AstraSDKError && error.code === 'ABORTED') {
+        throw error;
+      }
       
       // Don't retry on client errors (4xx) except 429 (rate limit)
       if (error instanceof AstraSDKError && error.status) {
@@ -0,0 +1,228 @@
+/**
+ * AAMVA driving licence barcodes
+ * Decodes the PDF417 barcode on a licence back and parses the AAMVA data elements
+ */
+
+export interface AamvaAddress {
+  street: string | null;
+  street2: string | null;
+  city: string | null;
+  /** Jurisdiction code, e.g. `CA` or `ON` */
+  state: string | null;
+  postalCode: string | null;
+  /** `USA` or `CAN` */
+  country: string | null;
+}
+
+export interface AamvaLicense {
+  /** Issuer Identification Number of the issuing jurisdiction */
+  issuerId: string | null;
+  /** AAMVA card design standard version */
+  version: number | null;
+  /** `DL` for driving licences, `ID` for identification cards */
+  documentType: string | null;
+  documentNumber: string | null;
+  firstName: string | null;
+  middleName: string | null;
+  lastName: string | null;
+  /** ISO dates (YYYY-MM-DD) */
+  birthDate: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  /** `M`, `F` or `X` */
+  sex: string | null;
+  address: AamvaAddress;
+  eyeColor: string | null;
+  height: string | null;
+  vehicleClass: string | null;
+  restrictions: string | null;
+  endorsements: string | null;
+  /** Uniquely identifies this card among those issued to the holder */
+  documentDiscriminator: string | null;
+  /** Every element by its three-letter id, e.g. `DAQ` */
+  elements: Record<string, string>;
+}
+
+export interface AamvaParseResult {
+  license: AamvaLicense;
+  /** Required elements that are missing or malformed */
+  missing: string[];
+  /** True when the document number, name and dates are all present */
+  valid: boolean;
+}
+
+/**
+ * Decodes a PDF417 barcode from the image and returns its raw text, or null when none was found
+ */
+export type BarcodeDecoder = (image: HTMLCanvasElement) => Promise<string | null>;
+
+export type AamvaReadResult =
+  | { status: 'valid'; result: AamvaParseResult }
+  /** A barcode was decoded but required elements are missing */
+  | { status: 'invalid'; result: AamvaParseResult }
+  /** No barcode found, or its content is not AAMVA data */
+  | { status: 'unreadable' }
+  /** No decoder was given and the browser has no built-in barcode detection */
+  | { status: 'unavailable' };
+
+const REQUIRED_ELEMENTS = ['DAQ', 'DBB', 'DBA'];
+
+function clean(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed && trimmed.toUpperCase() !== 'NONE' && trimmed.toUpperCase() !== 'UNAVL' ? trimmed : null;
+}
+
+/**
+ * US cards write dates as MMDDCCYY, Canadian ones as CCYYMMDD
+ */
+function toIsoDate(value: string | undefined, country: string | null): string | null {
+  const digits = value?.trim();
+  if (!digits || !/^\d{8}$/.test(digits)) return null;
+  const candidates = country === 'CAN'
+    ? [[digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)], [digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)]]
+    : [[digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)], [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)]];
+  for (const [year, month, day] of candidates) {
+    const m = Number(month), d = Number(day), y = Number(year);
+    if (y >= 1900 && y <= 2199 && m >= 1 && m <= 12 && d >= 1 && d <= 31) {
+      return `${year}-${month}-${day}`;
+    }
+  }
+  return null;
+}
+
+function toSex(value: string | undefined): string | null {
+  switch (value?.trim().toUpperCase()) {
+    case '1':
+    case 'M':
+      return 'M';
+    case '2':
+    case 'F':
+      return 'F';
+    case '9':
+    case 'X':
+      return 'X';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse the text of an AAMVA barcode. Returns null when the text is not AAMVA data.
+ */
+export function parseAamva(text: string): AamvaParseResult | null {
+  const start = text.indexOf('ANSI ') >= 0 ? text.indexOf('ANSI ') : text.indexOf('AAMVA');
+  if (start < 0) return null;
+
+  // Header: "ANSI " + IIN (6) + version (2) + jurisdiction version (2) + entries (2) + designators
+  const header = text.slice(start);
+  const headerMatch = /^(?:ANSI |AAMVA)(\d{6})(\d{2})/.exec(header);
+
+  // Elements are separated by line feeds (some issuers use carriage returns); each
+  // starts with its three-letter id. The first one follows the subfile type ("DL"/"ID").
+  const elements: Record<string, string> = {};
+  let documentType: string | null = null;
+  for (const rawLine of header.split(/[\n\r]+/)) {
+    let line = rawLine;
+    const subfile = /(?:^|\d{8})(DL|ID)(D[A-Z]{2}.*)$/.exec(line);
+    if (subfile) {
+      documentType ??= subfile[1];
+      line = subfile[2];
+    }
+    const element = /^(D[A-Z]{2})(.*)$/.exec(line);
+    if (element && !(element[1] in elements)) {
+      elements[element[1]] = element[2];
+    }
+  }
+  if (Object.keys(elements).length === 0) return null;
+
+  // Version 1 cards carry the whole name in DAA as "LAST,FIRST,MIDDLE"
+  const fullName = elements.DAA?.split(/[,$]/).map((part) => part.trim());
+  const country = clean(elements.DCG);
+
+  const license: AamvaLicense = {
+    issuerId: headerMatch?.[1] ?? null,
+    version: headerMatch ? Number(headerMatch[2]) : null,
+    documentType,
+    documentNumber: clean(elements.DAQ),
+    firstName: clean(elements.DAC ?? elements.DCT ?? fullName?.[1]),
+    middleName: clean(elements.DAD ?? fullName?.[2]),
+    lastName: clean(elements.DCS ?? elements.DAB ?? fullName?.[0]),
+    birthDate: toIsoDate(elements.DBB, country),
+    issueDate: toIsoDate(elements.DBD, country),
+    expiryDate: toIsoDate(elements.DBA, country),
+    sex: toSex(elements.DBC),
+    address: {
+      street: clean(elements.DAG),
+      street2: clean(elements.DAH),
+      city: clean(elements.DAI),
+      state: clean(elements.DAJ),
+      postalCode: clean(elements.DAK),
+      country,
+    },
+    eyeColor: clean(elements.DAY),
+    height: clean(elements.DAU),
+    vehicleClass: clean(elements.DCA),
+    restrictions: clean(elements.DCB),
+    endorsements: clean(elements.DCD),
+    documentDiscriminator: clean(elements.DCF),
+    elements,
+  };
+
+  const missing = REQUIRED_ELEMENTS.filter((id) => {
+    if (id === 'DAQ') return !license.documentNumber;
+    if (id === 'DBB') return !license.birthDate;
+    return !license.expiryDate;
+  });
+  if (!license.lastName) missing.push('DCS');
+  return { license, missing, valid: missing.length === 0 };
+}
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+/**
+ * The browser's Shape Detection barcode detector, where it supports PDF417
+ */
+async function builtInDecoder(): Promise<BarcodeDecoder | null> {
+  const BarcodeDetector = (globalThis as {
+    BarcodeDetector?: (new (options: { formats: string[] }) => BarcodeDetectorLike) & { getSupportedFormats?: () => Promise<string[]> };
+  }).BarcodeDetector;
+  if (!BarcodeDetector) return null;
+  try {
+    const formats = await BarcodeDetector.getSupportedFormats?.();
+    if (formats && !formats.includes('pdf417')) return null;
+  } catch {
+    return null;
+  }
+  const detector = new BarcodeDetector({ formats: ['pdf417'] });
+  return async (image) => {
+    const [barcode] = await detector.detect(image);
+    return barcode?.rawValue ?? null;
+  };
+}
+
+/**
+ * Decode and parse the AAMVA barcode of a licence back
+ */
+export async function readAamvaBarcode(
+  image: HTMLCanvasElement,
+  options: { decoder?: BarcodeDecoder } = {}
+): Promise<AamvaReadResult> {
+  const decode = options.decoder ?? await builtInDecoder();
+  if (!decode) return { status: 'unavailable' };
+
+  let text: string | null = null;
+  try {
+    text = await decode(image);
+  } catch (error) {
+    console.error('Barcode decoding failed:', error);
+  }
+  const result = text ? parseAamva(text) : null;
+  if (!result) return { status: 'unreadable' };
+  return result.valid ? { status: 'valid', result } : { status: 'invalid', result };
+}
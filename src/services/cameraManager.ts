@@ -0,0 +1,291 @@
+/**
+ * Camera access
+ * Opens, switches and diagnoses the camera streams used by face and document capture
+ */
+
+import { CameraAccessError, KycAbortedError } from './kycErrors';
+
+export const CameraErrorKind = {
+  /** The user or the browser refused camera access (NotAllowedError, SecurityError) */
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  /** No camera exists (NotFoundError) */
+  NOT_FOUND: 'NOT_FOUND',
+  /** Another app holds the camera (NotReadableError) */
+  IN_USE: 'IN_USE',
+  /** No camera satisfies the constraints (OverconstrainedError) */
+  OVERCONSTRAINED: 'OVERCONSTRAINED',
+  /** `getUserMedia` is missing: plain http, or an in-app browser without camera support */
+  INSECURE_CONTEXT: 'INSECURE_CONTEXT',
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type CameraErrorKind = (typeof CameraErrorKind)[keyof typeof CameraErrorKind];
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface CameraDevice {
+  deviceId: string;
+  /** Empty until camera permission has been granted */
+  label: string;
+  /** Which way the camera points, null when the browser doesn't say */
+  facing: CameraFacing | null;
+}
+
+export interface CameraResolution {
+  width: number;
+  height: number;
+}
+
+export interface CameraManagerOptions {
+  /** Camera to prefer when no device is chosen */
+  facing: CameraFacing;
+  /** Resolutions to ask for, best first. Each is tried before settling for the browser default. */
+  resolutions?: CameraResolution[];
+}
+
+export interface CameraPermissionHelp {
+  browser: string;
+  /** Steps to re-enable camera access, in order */
+  steps: string[];
+}
+
+const DEFAULT_RESOLUTIONS: CameraResolution[] = [{ width: 1280, height: 720 }];
+
+/**
+ * Map a `getUserMedia` failure onto a `CameraErrorKind`
+ */
+export function classifyCameraError(error: unknown): CameraErrorKind {
+  if (error instanceof CameraAccessError) return error.kind;
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) return CameraErrorKind.INSECURE_CONTEXT;
+  switch ((error as { name?: string } | null)?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return CameraErrorKind.PERMISSION_DENIED;
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return CameraErrorKind.NOT_FOUND;
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return CameraErrorKind.IN_USE;
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return CameraErrorKind.OVERCONSTRAINED;
+    default:
+      return CameraErrorKind.UNKNOWN;
+  }
+}
+
+export function toCameraError(error: unknown): CameraAccessError {
+  return error instanceof CameraAccessError ? error : new CameraAccessError(classifyCameraError(error), undefined, error);
+}
+
+/**
+ * How to re-enable camera access in the user's browser
+ */
+export function cameraPermissionHelp(userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent): CameraPermissionHelp {
+  const ios = /iphone|ipad|ipod/i.test(userAgent);
+  const android = /android/i.test(userAgent);
+  const reload = 'Reload this page';
+
+  if (ios) {
+    const app = /crios/i.test(userAgent) ? 'Chrome' : /fxios/i.test(userAgent) ? 'Firefox' : /edgios/i.test(userAgent) ? 'Edge' : null;
+    if (app) {
+      return {
+        browser: `${app} on iOS`,
+        steps: ['Open the Settings app', `Scroll down to ${app} and turn on Camera`, `Return to ${app} and reload this page`],
+      };
+    }
+    return {
+      browser: 'Safari on iOS',
+      steps: ['Tap "aA" in the address bar, then Website Settings', 'Set Camera to Allow', reload],
+    };
+  }
+  if (android) {
+    if (/samsungbrowser/i.test(userAgent)) {
+      return {
+        browser: 'Samsung Internet',
+        steps: ['Open the menu, then Settings > Sites and downloads > Site permissions > Camera', 'Allow this site', reload],
+      };
+    }
+    if (/firefox/i.test(userAgent)) {
+      return {
+        browser: 'Firefox on Android',
+        steps: ['Tap the lock icon in the address bar', 'Turn Camera on', reload],
+      };
+    }
+    return {
+      browser: 'Chrome on Android',
+      steps: [
+        'Tap the icon left of the address bar, then Permissions',
+        'Turn Camera on',
+        'If Chrome itself has no camera access: Settings > Apps > Chrome > Permissions > Camera',
+        reload,
+      ],
+    };
+  }
+  if (/firefox/i.test(userAgent)) {
+    return {
+      browser: 'Firefox',
+      steps: ['Click the crossed-out camera icon in the address bar', 'Remove the camera block', reload],
+    };
+  }
+  if (/safari/i.test(userAgent) && !/chrome|chromium|edg/i.test(userAgent)) {
+    return {
+      browser: 'Safari',
+      steps: ['Open Safari > Settings for This Website', 'Set Camera to Allow', reload],
+    };
+  }
+  return {
+    browser: /edg/i.test(userAgent) ? 'Edge' : 'Chrome',
+    steps: [
+      'Click the camera or lock icon in the address bar',
+      'Allow camera access for this site',
+      'On a Mac, also check System Settings > Privacy & Security > Camera',
+      reload,
+    ],
+  };
+}
+
+function facingOf(device: MediaDeviceInfo): CameraFacing | null {
+  const reported = (device as InputDeviceInfo).getCapabilities?.().facingMode?.[0];
+  if (reported === 'user' || reported === 'environment') return reported;
+  if (/back|rear|environment/i.test(device.label)) return 'environment';
+  if (/front|user|face/i.test(device.label)) return 'user';
+  return null;
+}
+
+/**
+ * Owns one camera stream at a time. Starting a camera stops the previous one,
+ * and a start that is overtaken by a newer start or by `stop` is discarded.
+ */
+export class CameraManager {
+  private facing: CameraFacing;
+  private resolutions: CameraResolution[];
+  private current: MediaStream | null = null;
+  private generation = 0;
+
+  constructor(options: CameraManagerOptions) {
+    this.facing = options.facing;
+    this.resolutions = options.resolutions ?? DEFAULT_RESOLUTIONS;
+  }
+
+  get stream(): MediaStream | null {
+    return this.current;
+  }
+
+  /**
+   * Device id of the running camera
+   */
+  get deviceId(): string | null {
+    return this.current?.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  async listCameras(): Promise<CameraDevice[]> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'videoinput' && device.deviceId)
+      .map((device) => ({ deviceId: device.deviceId, label: device.label, facing: facingOf(device) }));
+  }
+
+  /**
+   * Open a camera: the given device, or else the one facing the configured way.
+   * Throws `CameraAccessError`, or `KycAbortedError` when overtaken.
+   */
+  async start(deviceId?: string): Promise<MediaStream> {
+    this.stop();
+    const generation = this.generation;
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      throw new CameraAccessError(CameraErrorKind.INSECURE_CONTEXT);
+    }
+
+    let stream = this.claim(await this.open(this.attempts(deviceId)), generation);
+    if (!deviceId) {
+      const settings = stream.getVideoTracks()[0]?.getSettings();
+      if (settings && settings.facingMode !== this.facing) {
+        // Browsers that ignore facingMode open the default camera; look for the right one by label
+        const match = (await this.listCameras()).find((c) => c.facing === this.facing && c.deviceId !== settings.deviceId);
+        if (match) {
+          // Phones can't open two cameras at once
+          stream.getTracks().forEach((track) => track.stop());
+          stream = this.claim(await this.open(this.attempts(match.deviceId)).catch(() => this.open(this.attempts())), generation);
+        }
+      }
+    }
+
+    this.current = stream;
+    return stream;
+  }
+
+  stop(): void {
+    this.generation++;
+    this.current?.getTracks().forEach((track) => track.stop());
+    this.current = null;
+  }
+
+  /**
+   * Call `listener` whenever the camera permission changes, e.g. once the user
+   * re-enables it in the browser settings. Returns an unsubscribe function.
+   */
+  onPermissionChange(listener: (state: PermissionState) => void): () => void {
+    let status: PermissionStatus | null = null;
+    let active = true;
+    const onChange = () => {
+      if (status) listener(status.state);
+    };
+    navigator.permissions?.query({ name: 'camera' })
+      .then((result) => {
+        if (!active) return;
+        status = result;
+        status.addEventListener('change', onChange);
+      })
+      .catch(() => {
+        // Firefox and older Safari can't query the camera permission
+      });
+    return () => {
+      active = false;
+      status?.removeEventListener('change', onChange);
+    };
+  }
+
+  /**
+   * Hand back `stream` unless a newer start or `stop` has happened since `generation`
+   */
+  private claim(stream: MediaStream, generation: number): MediaStream {
+    if (generation === this.generation) return stream;
+    stream.getTracks().forEach((track) => track.stop());
+    throw new KycAbortedError('Camera start was superseded');
+  }
+
+  private attempts(deviceId?: string): MediaTrackConstraints[] {
+    const sized = (base: MediaTrackConstraints) => [
+      ...this.resolutions.map(({ width, height }) => ({ ...base, width: { ideal: width }, height: { ideal: height } })),
+      base,
+    ];
+    if (deviceId) return sized({ deviceId: { exact: deviceId } });
+    return [
+      ...sized({ facingMode: { exact: this.facing } }),
+      ...sized({ facingMode: this.facing }),
+    ];
+  }
+
+  /**
+   * Try each constraint set in turn. Errors that other constraints can't fix
+   * (denied permission, camera in use) end the search early.
+   */
+  private async open(attempts: MediaTrackConstraints[]): Promise<MediaStream> {
+    let lastError: unknown = null;
+    for (const video of attempts) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ video, audio: false });
+      } catch (error) {
+        lastError = error;
+        const kind = classifyCameraError(error);
+        if (kind === CameraErrorKind.PERMISSION_DENIED || kind === CameraErrorKind.IN_USE) break;
+      }
+    }
+    throw toCameraError(lastError);
+  }
+}
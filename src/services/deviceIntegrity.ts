@@ -0,0 +1,287 @@
+/**
+ * Camera device integrity
+ * Flags virtual cameras (OBS, ManyCam, ...) and injected streams that a face scan should not trust
+ */
+
+export const DeviceIntegrityIssue = {
+  /** The active camera's label matches a known virtual camera */
+  VIRTUAL_CAMERA: 'VIRTUAL_CAMERA',
+  /** A virtual camera is installed, though not the one in use */
+  VIRTUAL_CAMERA_INSTALLED: 'VIRTUAL_CAMERA_INSTALLED',
+  /** The track isn't backed by a capture device (canvas capture, missing device id) */
+  SYNTHETIC_TRACK: 'SYNTHETIC_TRACK',
+  /** The track's device is not among the enumerated video inputs */
+  UNLISTED_DEVICE: 'UNLISTED_DEVICE',
+  /** The track reports no resolution or frame rate ranges */
+  MISSING_CAPABILITIES: 'MISSING_CAPABILITIES',
+  /** A single fixed capture mode, typical of virtual cameras */
+  FIXED_CAPABILITIES: 'FIXED_CAPABILITIES',
+  /** Frame timestamps too regular for a physical sensor */
+  REGULAR_FRAME_TIMING: 'REGULAR_FRAME_TIMING',
+  /** Frames arrive far slower than the track claims */
+  FRAME_RATE_MISMATCH: 'FRAME_RATE_MISMATCH',
+  /** New frames are presented with timestamps that don't advance */
+  FROZEN_TIMESTAMPS: 'FROZEN_TIMESTAMPS',
+} as const;
+
+export type DeviceIntegrityIssue = (typeof DeviceIntegrityIssue)[keyof typeof DeviceIntegrityIssue];
+
+export type DeviceRisk = 'low' | 'medium' | 'high';
+
+/**
+ * What the flow does with a high-risk camera: `report` uploads the report with
+ * the face scan for the server to decide, `block` stops the scan
+ */
+export type DeviceIntegrityPolicy = 'report' | 'block';
+
+export interface DeviceIntegrityFinding {
+  issue: DeviceIntegrityIssue;
+  risk: DeviceRisk;
+  detail: string;
+}
+
+export interface DeviceFrameTiming {
+  /** Frames observed while sampling */
+  frames: number;
+  /** Mean interval between frame timestamps in ms */
+  meanInterval: number;
+  /** Standard deviation of the intervals over their mean */
+  jitter: number;
+  /** Frames per second measured from the timestamps */
+  measuredFps: number;
+}
+
+export interface DeviceIntegrityReport {
+  /** Overall risk; `high` is what `DeviceIntegrityPolicy` blocks on */
+  risk: DeviceRisk;
+  findings: DeviceIntegrityFinding[];
+  /** Label of the camera in use, empty when the browser hides it */
+  label: string;
+  settings: {
+    width?: number;
+    height?: number;
+    frameRate?: number;
+    facingMode?: string;
+  };
+  /** Number of video inputs the browser lists */
+  videoInputs: number;
+  /** Null when frame timing could not be sampled */
+  timing: DeviceFrameTiming | null;
+  checkedAt: number;
+}
+
+export interface DeviceIntegrityOptions {
+  /** Video element playing the stream; needed for the frame timing checks */
+  video?: HTMLVideoElement | null;
+  /** How long frame timing is sampled. 0 skips it. Defaults to 1500ms. */
+  timingSampleMs?: number;
+  /** Extra label patterns to treat as virtual cameras */
+  signatures?: RegExp[];
+}
+
+/**
+ * Labels of common virtual camera drivers, and of Chrome's fake capture device
+ */
+export const VIRTUAL_CAMERA_SIGNATURES: RegExp[] = [
+  /\bvirtual\b/i,
+  /\bobs\b/i,
+  /manycam/i,
+  /snap camera/i,
+  /xsplit/i,
+  /splitcam/i,
+  /e2esoft|\bvcam\b/i,
+  /camtwist/i,
+  /youcam/i,
+  /altercam/i,
+  /webcamoid/i,
+  /avatarify/i,
+  /facerig/i,
+  /mmhmm/i,
+  /\bndi\b/i,
+  /v4l2loopback|dummy video/i,
+  /fake_device|fake video/i,
+];
+
+// Coefficient of variation of frame intervals below which timing looks generated
+const REGULAR_JITTER = 0.002;
+const MIN_TIMING_FRAMES = 15;
+// Measured frame rate below this share of the advertised one
+const FRAME_RATE_RATIO = 0.5;
+
+const RISK_ORDER: DeviceRisk[] = ['low', 'medium', 'high'];
+
+function overallRisk(findings: DeviceIntegrityFinding[]): DeviceRisk {
+  const count = (risk: DeviceRisk) => findings.filter((f) => f.risk === risk).length;
+  if (count('high') > 0 || count('medium') >= 2) return 'high';
+  if (count('medium') > 0 || count('low') >= 2) return 'medium';
+  return 'low';
+}
+
+function matchesSignature(label: string, signatures: RegExp[]): boolean {
+  return label !== '' && signatures.some((pattern) => pattern.test(label));
+}
+
+/**
+ * Collect frame timestamps for `duration` ms, or resolve early with what
+ * arrived if the video stops presenting frames (paused, hidden tab)
+ */
+function sampleFrameTimes(video: HTMLVideoElement, duration: number): Promise<Array<{ mediaTime: number; presented: number }>> {
+  return new Promise((resolve) => {
+    const samples: Array<{ mediaTime: number; presented: number }> = [];
+    const started = performance.now();
+    let handle = 0;
+    const finish = () => {
+      window.clearTimeout(timeoutId);
+      video.cancelVideoFrameCallback(handle);
+      resolve(samples);
+    };
+    const onFrame: VideoFrameRequestCallback = (now, metadata) => {
+      samples.push({ mediaTime: metadata.mediaTime * 1000, presented: metadata.presentedFrames });
+      if (now - started >= duration) {
+        finish();
+      } else {
+        handle = video.requestVideoFrameCallback(onFrame);
+      }
+    };
+    const timeoutId = window.setTimeout(finish, duration + 1000);
+    handle = video.requestVideoFrameCallback(onFrame);
+  });
+}
+
+async function checkFrameTiming(
+  video: HTMLVideoElement,
+  duration: number,
+  advertisedFps: number | undefined,
+  findings: DeviceIntegrityFinding[]
+): Promise<DeviceFrameTiming | null> {
+  const samples = await sampleFrameTimes(video, duration);
+  if (samples.length < MIN_TIMING_FRAMES) return null;
+
+  const intervals: number[] = [];
+  let frozen = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const interval = samples[i].mediaTime - samples[i - 1].mediaTime;
+    if (interval > 0) {
+      intervals.push(interval);
+    } else if (samples[i].presented > samples[i - 1].presented) {
+      frozen++;
+    }
+  }
+  if (frozen > samples.length / 4) {
+    findings.push({
+      issue: DeviceIntegrityIssue.FROZEN_TIMESTAMPS,
+      risk: 'medium',
+      detail: `${frozen} of ${samples.length} frames repeated the previous timestamp`,
+    });
+  }
+  if (intervals.length < MIN_TIMING_FRAMES - 1) return null;
+
+  const meanInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+  const variance = intervals.reduce((a, b) => a + (b - meanInterval) ** 2, 0) / intervals.length;
+  const jitter = Math.sqrt(variance) / meanInterval;
+  const measuredFps = 1000 / meanInterval;
+
+  // Some phones stamp frames from a steady hardware clock, so this alone stays low risk
+  if (jitter < REGULAR_JITTER) {
+    findings.push({
+      issue: DeviceIntegrityIssue.REGULAR_FRAME_TIMING,
+      risk: 'low',
+      detail: `Frame interval jitter ${(jitter * 100).toFixed(2)}%`,
+    });
+  }
+  if (advertisedFps && measuredFps < advertisedFps * FRAME_RATE_RATIO) {
+    findings.push({
+      issue: DeviceIntegrityIssue.FRAME_RATE_MISMATCH,
+      risk: 'low',
+      detail: `${measuredFps.toFixed(1)} fps measured, ${advertisedFps} fps advertised`,
+    });
+  }
+  return { frames: samples.length, meanInterval, jitter, measuredFps };
+}
+
+/**
+ * Inspect the camera stream for signs of a virtual camera or injected video:
+ * device labels, whether the track belongs to a listed capture device, its
+ * capabilities, and the regularity of its frame timestamps.
+ * Never throws; checks the browser doesn't support are skipped.
+ */
+export async function checkDeviceIntegrity(stream: MediaStream, options: DeviceIntegrityOptions = {}): Promise<DeviceIntegrityReport> {
+  const signatures = [...VIRTUAL_CAMERA_SIGNATURES, ...(options.signatures ?? [])];
+  const findings: DeviceIntegrityFinding[] = [];
+  const track = stream.getVideoTracks()[0];
+
+  if (!track) {
+    findings.push({ issue: DeviceIntegrityIssue.SYNTHETIC_TRACK, risk: 'high', detail: 'Stream has no video track' });
+    return { risk: 'high', findings, label: '', settings: {}, videoInputs: 0, timing: null, checkedAt: Date.now() };
+  }
+
+  const settings = track.getSettings();
+  const label = track.label || '';
+
+  if (matchesSignature(label, signatures)) {
+    findings.push({ issue: DeviceIntegrityIssue.VIRTUAL_CAMERA, risk: 'high', detail: `Camera "${label}" is a known virtual camera` });
+  }
+
+  if (typeof CanvasCaptureMediaStreamTrack !== 'undefined' && track instanceof CanvasCaptureMediaStreamTrack) {
+    findings.push({ issue: DeviceIntegrityIssue.SYNTHETIC_TRACK, risk: 'high', detail: 'Track is captured from a canvas' });
+  } else if (!settings.deviceId) {
+    findings.push({ issue: DeviceIntegrityIssue.SYNTHETIC_TRACK, risk: 'medium', detail: 'Track has no capture device id' });
+  }
+
+  let videoInputs = 0;
+  try {
+    const devices = (await navigator.mediaDevices.enumerateDevices()).filter((d) => d.kind === 'videoinput');
+    videoInputs = devices.length;
+    // Ids are only listed once camera permission is granted, which it is while the stream runs
+    if (settings.deviceId && devices.some((d) => d.deviceId) && !devices.some((d) => d.deviceId === settings.deviceId)) {
+      findings.push({ issue: DeviceIntegrityIssue.UNLISTED_DEVICE, risk: 'high', detail: 'Track device is not a listed camera' });
+    }
+    const installed = devices
+      .filter((d) => d.deviceId !== settings.deviceId && matchesSignature(d.label, signatures))
+      .map((d) => d.label);
+    if (installed.length > 0) {
+      findings.push({ issue: DeviceIntegrityIssue.VIRTUAL_CAMERA_INSTALLED, risk: 'low', detail: `Installed: ${installed.join(', ')}` });
+    }
+  } catch {
+    // enumerateDevices is unavailable in some embedded browsers
+  }
+
+  if (typeof track.getCapabilities === 'function') {
+    const capabilities = track.getCapabilities();
+    if (!capabilities.width || !capabilities.height) {
+      findings.push({ issue: DeviceIntegrityIssue.MISSING_CAPABILITIES, risk: 'medium', detail: 'Track reports no resolution range' });
+    } else if (
+      capabilities.width.min === capabilities.width.max &&
+      capabilities.height.min === capabilities.height.max &&
+      capabilities.frameRate?.min === capabilities.frameRate?.max
+    ) {
+      findings.push({
+        issue: DeviceIntegrityIssue.FIXED_CAPABILITIES,
+        risk: 'low',
+        detail: `Single capture mode ${capabilities.width.max}x${capabilities.height.max}`,
+      });
+    }
+  }
+
+  let timing: DeviceFrameTiming | null = null;
+  const sampleMs = options.timingSampleMs ?? 1500;
+  if (options.video && sampleMs > 0 && typeof options.video.requestVideoFrameCallback === 'function') {
+    timing = await checkFrameTiming(options.video, sampleMs, settings.frameRate, findings);
+  }
+
+  findings.sort((a, b) => RISK_ORDER.indexOf(b.risk) - RISK_ORDER.indexOf(a.risk));
+  return {
+    risk: overallRisk(findings),
+    findings,
+    label,
+    settings: {
+      width: settings.width,
+      height: settings.height,
+      frameRate: settings.frameRate,
+      facingMode: settings.facingMode,
+    },
+    videoInputs,
+    timing,
+    checkedAt: Date.now(),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Document auto-capture
+ * Decides when a detected document has been steady, sharp and glare-free long enough to capture
+ */
+
+import type { DocumentDetection, DocumentQuad } from './documentDetection';
+
+export interface DocumentAutoCaptureOptions {
+  /** Consecutive steady detections required before the countdown starts. Defaults to 6. */
+  stableFrames?: number;
+  /** Largest corner movement between detections, as a share of the frame diagonal. Defaults to 0.015. */
+  maxMovement?: number;
+  /** Lowest sharpness accepted, see `DocumentDetection.sharpness`. Defaults to 60. */
+  minSharpness?: number;
+  /** Highest glare accepted, see `DocumentDetection.glare`. Defaults to 0.02. */
+  maxGlare?: number;
+  /** Countdown shown before the capture fires. Defaults to 3 seconds. */
+  countdownSeconds?: number;
+}
+
+export interface DocumentAutoCaptureStatus {
+  /** True once the document has been steady for `stableFrames` detections */
+  ready: boolean;
+  stableFrames: number;
+  /** What the user should fix, null while the document is acceptable */
+  guidance: string | null;
+}
+
+export const DEFAULT_DOCUMENT_AUTO_CAPTURE_OPTIONS: Required<DocumentAutoCaptureOptions> = {
+  stableFrames: 6,
+  maxMovement: 0.015,
+  minSharpness: 60,
+  maxGlare: 0.02,
+  countdownSeconds: 3,
+};
+
+export class DocumentAutoCapture {
+  readonly options: Required<DocumentAutoCaptureOptions>;
+  private previous: DocumentQuad | null = null;
+  private stable = 0;
+
+  constructor(options: DocumentAutoCaptureOptions = {}) {
+    this.options = { ...DEFAULT_DOCUMENT_AUTO_CAPTURE_OPTIONS, ...options };
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.stable = 0;
+  }
+
+  /**
+   * Feed the latest detection (corners in frame pixels) and get the capture readiness
+   */
+  update(detection: DocumentDetection | null, frameWidth: number, frameHeight: number): DocumentAutoCaptureStatus {
+    if (!detection) {
+      this.reset();
+      return { ready: false, stableFrames: 0, guidance: 'Position your document in the frame' };
+    }
+
+    const diagonal = Math.hypot(frameWidth, frameHeight);
+    const previous = this.previous;
+    // The first detection has nothing to compare against and just starts the count
+    const movement = previous
+      ? Math.max(...detection.corners.map((p, i) => Math.hypot(p.x - previous[i].x, p.y - previous[i].y))) / diagonal
+      : 0;
+    this.previous = detection.corners;
+
+    let guidance: string | null = null;
+    if (detection.glare > this.options.maxGlare) {
+      guidance = 'Tilt the document to avoid glare';
+    } else if (movement > this.options.maxMovement) {
+      guidance = 'Hold the document steady';
+    } else if (detection.sharpness < this.options.minSharpness) {
+      guidance = 'Hold still, the image is blurry';
+    }
+
+    this.stable = guidance ? 0 : Math.min(this.stable + 1, this.options.stableFrames);
+    return { ready: this.stable >= this.options.stableFrames, stableFrames: this.stable, guidance };
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Document detection
+ * Finds a card or page outline in a camera frame and flattens it with a perspective warp
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in top-left, top-right, bottom-right, bottom-left order */
+export type DocumentQuad = [Point, Point, Point, Point];
+
+export interface DocumentDetection {
+  corners: DocumentQuad;
+  /** Share of boundary samples that lie on the detected outline, 0-1 */
+  confidence: number;
+  /** Variance of the Laplacian inside the outline, higher is sharper */
+  sharpness: number;
+  /** Fraction of pixels inside the outline that are blown out */
+  glare: number;
+}
+
+export interface DocumentDetectorOptions {
+  /** Rays cast from the frame center to look for the outline. Defaults to 72. */
+  rays?: number;
+  /** Smallest outline accepted, as a share of the frame area. Defaults to 0.15. */
+  minAreaRatio?: number;
+  /** Lowest confidence reported as a detection. Defaults to 0.6. */
+  minConfidence?: number;
+}
+
+/**
+ * Width / height of the standard document formats
+ */
+export const DOCUMENT_ASPECT_RATIOS = {
+  /** ID-1: bank cards, national ID cards, driving licences (85.60 × 53.98 mm) */
+  ID1: 85.6 / 53.98,
+  /** ID-3: passport data page (125 × 88 mm) */
+  ID3: 125 / 88,
+} as const;
+
+interface Gradients {
+  gray: Float32Array;
+  gx: Float32Array;
+  gy: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface Line {
+  /** Point on the line */
+  x: number;
+  y: number;
+  /** Unit direction */
+  dx: number;
+  dy: number;
+}
+
+function computeGradients(image: ImageData): Gradients {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // 3x3 box blur keeps paper texture and sensor noise out of the edges
+  const blurred = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let j = -1; j <= 1; j++) {
+        for (let i = -1; i <= 1; i++) {
+          sum += gray[(y + j) * width + x + i];
+        }
+      }
+      blurred[y * width + x] = sum / 9;
+    }
+  }
+
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const i = y * width + x;
+      gx[i] = blurred[i - width + 1] + 2 * blurred[i + 1] + blurred[i + width + 1]
+        - blurred[i - width - 1] - 2 * blurred[i - 1] - blurred[i + width - 1];
+      gy[i] = blurred[i + width - 1] + 2 * blurred[i + width] + blurred[i + width + 1]
+        - blurred[i - width - 1] - 2 * blurred[i - width] - blurred[i - width + 1];
+    }
+  }
+  return { gray, gx, gy, width, height };
+}
+
+/**
+ * Walk each ray outwards and keep the outermost strong edge crossing it.
+ * Text and photos on the document are inside that edge, so they lose.
+ */
+function castRays(gradients: Gradients, rays: number): Point[] {
+  const { gx, gy, width, height } = gradients;
+  const cx = width / 2, cy = height / 2;
+  const minRadius = Math.min(width, height) * 0.1;
+  const points: Point[] = [];
+
+  for (let k = 0; k < rays; k++) {
+    const angle = (k / rays) * Math.PI * 2;
+    const dx = Math.cos(angle), dy = Math.sin(angle);
+    const profile: Array<{ r: number; strength: number }> = [];
+    let maxStrength = 0;
+
+    for (let r = minRadius; ; r += 1) {
+      const x = Math.round(cx + dx * r), y = Math.round(cy + dy * r);
+      if (x < 2 || y < 2 || x >= width - 2 || y >= height - 2) break;
+      const i = y * width + x;
+      const strength = Math.abs(gx[i] * dx + gy[i] * dy);
+      profile.push({ r, strength });
+      maxStrength = Math.max(maxStrength, strength);
+    }
+    if (maxStrength < 40) continue;
+
+    for (let j = profile.length - 2; j > 0; j--) {
+      const { r, strength } = profile[j];
+      if (strength >= maxStrength * 0.4 && strength >= profile[j - 1].strength && strength >= profile[j + 1].strength) {
+        points.push({ x: cx + dx * r, y: cy + dy * r });
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+function distanceToLine(point: Point, line: Line): number {
+  return Math.abs((point.x - line.x) * line.dy - (point.y - line.y) * line.dx);
+}
+
+/**
+ * Total least squares fit, then a second pass without the worst outliers
+ */
+function fitLine(points: Point[]): Line | null {
+  const fit = (subset: Point[]): Line | null => {
+    if (subset.length < 2) return null;
+    const mx = subset.reduce((sum, p) => sum + p.x, 0) / subset.length;
+    const my = subset.reduce((sum, p) => sum + p.y, 0) / subset.length;
+    let sxx = 0, sxy = 0, syy = 0;
+    for (const p of subset) {
+      sxx += (p.x - mx) ** 2;
+      sxy += (p.x - mx) * (p.y - my);
+      syy += (p.y - my) ** 2;
+    }
+    const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    return { x: mx, y: my, dx: Math.cos(angle), dy: Math.sin(angle) };
+  };
+
+  const first = fit(points);
+  if (!first) return null;
+  const residuals = points.map((p) => distanceToLine(p, first)).sort((a, b) => a - b);
+  const cutoff = Math.max(1.5, residuals[Math.floor(residuals.length / 2)] * 2.5);
+  return fit(points.filter((p) => distanceToLine(p, first) <= cutoff)) ?? first;
+}
+
+function intersect(a: Line, b: Line): Point | null {
+  const det = a.dx * b.dy - a.dy * b.dx;
+  if (Math.abs(det) < 1e-6) return null;
+  const t = ((b.x - a.x) * b.dy - (b.y - a.y) * b.dx) / det;
+  return { x: a.x + a.dx * t, y: a.y + a.dy * t };
+}
+
+function segmentDistance(p: Point, a: Point, b: Point): number {
+  const vx = b.x - a.x, vy = b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * vx + (p.y - a.y) * vy) / (vx * vx + vy * vy || 1)));
+  return Math.hypot(p.x - (a.x + vx * t), p.y - (a.y + vy * t));
+}
+
+function quadArea(q: DocumentQuad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i], b = q[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function isPlausibleQuad(q: DocumentQuad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i], b = q[(i + 1) % 4], c = q[(i + 2) % 4];
+    const ux = b.x - a.x, uy = b.y - a.y, vx = c.x - b.x, vy = c.y - b.y;
+    const cross = ux * vy - uy * vx;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+    // Interior angle between 45° and 135°
+    const cos = Math.abs((ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy) || 1));
+    if (cos > Math.SQRT1_2) return false;
+  }
+  return true;
+}
+
+function isInside(p: Point, q: DocumentQuad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i], b = q[(i + 1) % 4];
+    const side = Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+    if (side === 0) continue;
+    if (sign === 0) sign = side;
+    else if (side !== sign) return false;
+  }
+  return true;
+}
+
+/**
+ * Sharpness and glare over the document only, so a blurry or bright background does not count
+ */
+function measureInside(gradients: Gradients, quad: DocumentQuad): { sharpness: number; glare: number } {
+  const { gray, width, height } = gradients;
+  const minX = Math.max(1, Math.floor(Math.min(...quad.map((p) => p.x))));
+  const maxX = Math.min(width - 2, Math.ceil(Math.max(...quad.map((p) => p.x))));
+  const minY = Math.max(1, Math.floor(Math.min(...quad.map((p) => p.y))));
+  const maxY = Math.min(height - 2, Math.ceil(Math.max(...quad.map((p) => p.y))));
+
+  let sum = 0, sumSq = 0, count = 0, blownOut = 0;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!isInside({ x, y }, quad)) continue;
+      const i = y * width + x;
+      const value = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += value;
+      sumSq += value * value;
+      count++;
+      if (gray[i] >= 245) blownOut++;
+    }
+  }
+  if (count === 0) return { sharpness: 0, glare: 0 };
+  const mean = sum / count;
+  return { sharpness: sumSq / count - mean * mean, glare: blownOut / count };
+}
+
+/**
+ * Find the document outline in a frame. Best run on a downscaled frame
+ * (around 320px on the long side) and scaled back with `scaleQuad`.
+ */
+export function detectDocument(image: ImageData, options: DocumentDetectorOptions = {}): DocumentDetection | null {
+  const rays = options.rays ?? 72;
+  const minAreaRatio = options.minAreaRatio ?? 0.15;
+  const minConfidence = options.minConfidence ?? 0.6;
+
+  const gradients = computeGradients(image);
+  const points = castRays(gradients, rays);
+  if (points.length < rays * 0.5) return null;
+
+  // Rough corners from the extremes along both diagonals
+  const pick = (score: (p: Point) => number) => points.reduce((best, p) => (score(p) > score(best) ? p : best));
+  const rough: DocumentQuad = [
+    pick((p) => -p.x - p.y),
+    pick((p) => p.x - p.y),
+    pick((p) => p.x + p.y),
+    pick((p) => -p.x + p.y),
+  ];
+
+  // Refine each side with a line fit over the samples closest to it
+  const sides: Point[][] = [[], [], [], []];
+  for (const p of points) {
+    let best = 0, bestDistance = Infinity;
+    for (let i = 0; i < 4; i++) {
+      const distance = segmentDistance(p, rough[i], rough[(i + 1) % 4]);
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    sides[best].push(p);
+  }
+  const lines = sides.map(fitLine);
+  if (lines.some((line) => line === null)) return null;
+  const [top, right, bottom, left] = lines as Line[];
+  const corners = [intersect(left, top), intersect(top, right), intersect(right, bottom), intersect(bottom, left)];
+  if (corners.some((corner) => corner === null)) return null;
+  const quad = corners as DocumentQuad;
+
+  if (!isPlausibleQuad(quad) || quadArea(quad) < image.width * image.height * minAreaRatio) {
+    return null;
+  }
+
+  const tolerance = Math.hypot(image.width, image.height) * 0.02;
+  const onOutline = points.filter((p) => Math.min(...[0, 1, 2, 3].map((i) => segmentDistance(p, quad[i], quad[(i + 1) % 4]))) <= tolerance);
+  const confidence = onOutline.length / rays;
+  return confidence >= minConfidence ? { corners: quad, confidence, ...measureInside(gradients, quad) } : null;
+}
+
+// Frames are analysed at this size on the long side; edges survive and it stays real-time
+const DETECTION_SIZE = 320;
+
+/**
+ * Downscale a video frame or canvas, detect the document and return its
+ * corners in the source's own pixel coordinates
+ */
+export function detectDocumentInFrame(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  options: DocumentDetectorOptions = {}
+): DocumentDetection | null {
+  const scale = Math.min(1, DETECTION_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const detection = detectDocument(ctx.getImageData(0, 0, canvas.width, canvas.height), options);
+  if (!detection) return null;
+  return {
+    ...detection,
+    corners: scaleQuad(detection.corners, width / canvas.width, height / canvas.height),
+  };
+}
+
+export function scaleQuad(quad: DocumentQuad, scaleX: number, scaleY: number = scaleX): DocumentQuad {
+  return quad.map((p) => ({ x: p.x * scaleX, y: p.y * scaleY })) as DocumentQuad;
+}
+
+/**
+ * Reorder corners so the longer sides run horizontally, since the
+ * standard formats are all landscape
+ */
+export function toLandscape(quad: DocumentQuad): DocumentQuad {
+  const [tl, tr, br, bl] = quad;
+  const horizontal = Math.hypot(tr.x - tl.x, tr.y - tl.y) + Math.hypot(br.x - bl.x, br.y - bl.y);
+  const vertical = Math.hypot(bl.x - tl.x, bl.y - tl.y) + Math.hypot(br.x - tr.x, br.y - tr.y);
+  return horizontal >= vertical ? quad : [bl, tl, tr, br];
+}
+
+/**
+ * Homography mapping the output rectangle onto the source quad
+ */
+function solveHomography(quad: DocumentQuad, width: number, height: number): number[] {
+  const dst = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = dst[i];
+    const { x: u, y: v } = quad[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+/**
+ * Flatten the quad from `source` into a `width` × `height` canvas with bilinear sampling
+ */
+export function warpDocument(source: ImageData, quad: DocumentQuad, width: number, height: number): HTMLCanvasElement {
+  const h = solveHomography(quad, width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  const output = ctx.createImageData(width, height);
+  const src = source.data, out = output.data;
+  const sw = source.width, sh = source.height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const u = Math.max(0, Math.min(sw - 1.001, (h[0] * x + h[1] * y + h[2]) / w));
+      const v = Math.max(0, Math.min(sh - 1.001, (h[3] * x + h[4] * y + h[5]) / w));
+      const x0 = Math.floor(u), y0 = Math.floor(v);
+      const fx = u - x0, fy = v - y0;
+      const i00 = (y0 * sw + x0) * 4, i10 = i00 + 4, i01 = i00 + sw * 4, i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        out[o + c] = (src[i00 + c] * (1 - fx) + src[i10 + c] * fx) * (1 - fy)
+          + (src[i01 + c] * (1 - fx) + src[i11 + c] * fx) * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+}
+
+/**
+ * Cut the document out of a captured frame and flatten it to `aspectRatio`
+ * (width / height). The output keeps roughly the document's resolution in the frame.
+ */
+export function flattenDocument(frame: HTMLCanvasElement, quad: DocumentQuad, aspectRatio: number, maxWidth = 1600): HTMLCanvasElement {
+  const ctx = frame.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  const corners = toLandscape(quad);
+  const [tl, tr, br, bl] = corners;
+  const measured = Math.max(Math.hypot(tr.x - tl.x, tr.y - tl.y), Math.hypot(br.x - bl.x, br.y - bl.y));
+  const width = Math.round(Math.min(maxWidth, measured));
+  const height = Math.round(width / aspectRatio);
+  return warpDocument(ctx.getImageData(0, 0, frame.width, frame.height), corners, width, height);
+}
@@ -0,0 +1,153 @@
+/**
+ * Document type registry
+ * Describes which documents the flow accepts and how each one is captured
+ */
+
+import { DOCUMENT_ASPECT_RATIOS } from './documentDetection';
+import type { DocumentSide } from './kycApiService';
+import type { MrzFormat } from './mrz';
+
+/**
+ * Where a document carries its machine-readable zone
+ */
+export interface DocumentMrzSpec {
+  format: MrzFormat;
+  side: DocumentSide;
+}
+
+/**
+ * Where a document carries a barcode with the holder's details
+ */
+export interface DocumentBarcodeSpec {
+  /** PDF417 with AAMVA data, as on North American licences */
+  format: 'pdf417';
+  side: DocumentSide;
+}
+
+export interface DocumentTypeDefinition {
+  /** Sent as `docType` with the upload */
+  id: string;
+  /** Shown in the document picker */
+  label: string;
+  /** ISO 3166-1 alpha-2 code of the issuing country; omit for documents accepted from anywhere */
+  country?: string;
+  /** Sides to capture, in order */
+  sides: DocumentSide[];
+  /** Width / height of the physical document, used to flatten scans */
+  aspectRatio: number;
+  /** MIME types or extensions accepted for file uploads, as in the `accept` attribute */
+  accept: string[];
+  /** Machine-readable zone to read and validate before upload */
+  mrz?: DocumentMrzSpec;
+  /** Barcode to decode and validate before upload */
+  barcode?: DocumentBarcodeSpec;
+}
+
+/**
+ * A document type where everything but the id falls back to a default
+ */
+export type DocumentTypeConfig = Pick<DocumentTypeDefinition, 'id'> & Partial<Omit<DocumentTypeDefinition, 'id'>>;
+
+/**
+ * Document type as sent by the server in the session status
+ */
+export interface ServerDocumentType {
+  id: string;
+  label?: string;
+  country?: string;
+  sides?: DocumentSide[];
+  aspect_ratio?: number;
+  accept?: string[];
+  mrz?: DocumentMrzSpec;
+  barcode?: DocumentBarcodeSpec;
+}
+
+export const DEFAULT_DOCUMENT_ACCEPT = ['image/*', '.pdf'];
+
+/**
+ * The PDF417 barcode on the back of US and Canadian licences. Not part of the
+ * default `DrivingLicense`: licences from elsewhere don't carry AAMVA data and
+ * would never pass the check.
+ */
+export const AAMVA_BARCODE: DocumentBarcodeSpec = { format: 'pdf417', side: 'back' };
+
+export const DEFAULT_DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    id: 'CNIC',
+    label: 'NIC',
+    country: 'PK',
+    sides: ['front', 'back'],
+    aspectRatio: DOCUMENT_ASPECT_RATIOS.ID1,
+    accept: DEFAULT_DOCUMENT_ACCEPT,
+  },
+  {
+    id: 'Passport',
+    label: 'Passport',
+    sides: ['front'],
+    aspectRatio: DOCUMENT_ASPECT_RATIOS.ID3,
+    accept: DEFAULT_DOCUMENT_ACCEPT,
+    mrz: { format: 'TD3', side: 'front' },
+  },
+  {
+    id: 'DrivingLicense',
+    label: 'Driving licence',
+    sides: ['front', 'back'],
+    aspectRatio: DOCUMENT_ASPECT_RATIOS.ID1,
+    accept: DEFAULT_DOCUMENT_ACCEPT,
+  },
+];
+
+/**
+ * Fill in defaults and drop entries without an id or with a duplicate one.
+ * Unknown ids default to a one-sided ID-1 card.
+ */
+export function defineDocumentTypes(configs: DocumentTypeConfig[]): DocumentTypeDefinition[] {
+  const seen = new Set<string>();
+  const types: DocumentTypeDefinition[] = [];
+  for (const config of configs) {
+    if (!config.id || seen.has(config.id)) continue;
+    seen.add(config.id);
+    const builtIn = DEFAULT_DOCUMENT_TYPES.find((type) => type.id === config.id);
+    types.push({
+      id: config.id,
+      label: config.label ?? builtIn?.label ?? config.id,
+      country: config.country ?? builtIn?.country,
+      sides: config.sides && config.sides.length > 0 ? config.sides : builtIn?.sides ?? ['front'],
+      aspectRatio: config.aspectRatio ?? builtIn?.aspectRatio ?? DOCUMENT_ASPECT_RATIOS.ID1,
+      accept: config.accept && config.accept.length > 0 ? config.accept : builtIn?.accept ?? DEFAULT_DOCUMENT_ACCEPT,
+      mrz: config.mrz ?? builtIn?.mrz,
+      barcode: config.barcode ?? builtIn?.barcode,
+    });
+  }
+  return types;
+}
+
+/**
+ * Convert the server's document types, or null when it sent none
+ */
+export function fromServerDocumentTypes(types: ServerDocumentType[] | undefined): DocumentTypeDefinition[] | null {
+  if (!Array.isArray(types) || types.length === 0) return null;
+  const defined = defineDocumentTypes(types.map(({ aspect_ratio, ...rest }) => ({ ...rest, aspectRatio: aspect_ratio })));
+  return defined.length > 0 ? defined : null;
+}
+
+/**
+ * Countries with their own document types, in registry order
+ */
+export function getDocumentCountries(types: DocumentTypeDefinition[]): string[] {
+  return [...new Set(types.map((type) => type.country).filter((country): country is string => Boolean(country)))];
+}
+
+/**
+ * Whether a file matches the `accept` list (MIME types, `type/*` wildcards or extensions)
+ */
+export function isAcceptedFile(file: File, accept: string[]): boolean {
+  const name = file.name.toLowerCase();
+  const mime = file.type.toLowerCase();
+  return accept.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return mime.startsWith(pattern.slice(0, -1));
+    return mime === pattern;
+  });
+}
@@ -1,27 +1,53 @@
 import { FaceMesh, FACEMESH_TESSELATION, FACEMESH_FACE_OVAL, FACEMESH_LEFT_EYE, FACEMESH_RIGHT_EYE, FACEMESH_LIPS } from '@mediapipe/face_mesh';
 import { drawConnectors, drawLandmarks as drawMPLandmarks } from '@mediapipe/drawing_utils';
 
-export type LivenessStage = 'CENTER' | 'LEFT' | 'RIGHT' | 'SNAP' | 'DONE';
+import {
+  BlinkDetector,
+  LivenessChallengeEngine,
+  LANDMARKS,
+  SpoofDetector,
+  estimateHeadPose,
+  type BlinkSignal,
+  type FaceLandmark,
+  type HeadPose,
+  type LivenessStage,
+  type SpoofSignal,
+} from './liveness';
+import {
+  createAssetResolver,
+  preloadFaceMeshAssets,
+  type AssetLoadProgress,
+  type FaceMeshAssetOptions,
+} from './mediapipeAssets';
+
+export type { LivenessStage };
 
 export interface FaceMeshServiceCallbacks {
   onFaceDetected?: (faceOnCanvas: Array<{ x: number; y: number }>) => void;
   onLivenessUpdate?: (stage: LivenessStage, instruction: string) => void;
   onModelLoaded?: () => void;
+  /** Download progress while the model files are preloaded */
+  onModelProgress?: (progress: AssetLoadProgress) => void;
   onModelFailed?: (error: Error) => void;
   onCaptureTrigger?: () => void;
 }
 
 export interface LivenessState {
-  centerHold: number;
-  leftHold: number;
-  rightHold: number;
   snapTriggered: boolean;
   lastResultsAt: number;
   stage: LivenessStage;
   livenessReady: boolean;
   currentYaw: number | null;
   currentAbsYaw: number | null;
+  /** Latest landmarks normalized to the unmirrored video frame, as a capture sees it */
+  frameLandmarks: FaceLandmark[] | null;
+  /** Yaw/pitch/roll in degrees, null while no face is tracked */
+  headPose: HeadPose | null;
   livenessCompleted: boolean;
+  /** Passive blink signal gathered over the whole scan, independent of the challenges */
+  blink: BlinkSignal | null;
+  /** Passive presentation-attack cues (moiré, screen edges, flatness, micro-motion) gathered over the whole scan */
+  spoof: SpoofSignal | null;
 }
 
 export class FaceMeshService {
@@ -31,6 +57,10 @@ export class FaceMeshService {
   private callbacks: FaceMeshServiceCallbacks;
   private cameraDriverRef: React.MutableRefObject<number | null>;
   private livenessStateRef: React.MutableRefObject<LivenessState>;
+  private engine: LivenessChallengeEngine;
+  private blinkDetector = new BlinkDetector();
+  private spoofDetector = new SpoofDetector();
+  private assets: FaceMeshAssetOptions;
   private cancelled = false;
 
   constructor(
@@ -38,13 +68,17 @@ export class FaceMeshService {
     canvasRef: React.RefObject<HTMLCanvasElement | null>,
     cameraDriverRef: React.MutableRefObject<number | null>,
     livenessStateRef: React.MutableRefObject<LivenessState>,
-    callbacks: FaceMeshServiceCallbacks
+    callbacks: FaceMeshServiceCallbacks,
+    engine: LivenessChallengeEngine = new LivenessChallengeEngine(),
+    assets: FaceMeshAssetOptions = {}
   ) {
     this.videoRef = videoRef;
     this.canvasRef = canvasRef;
     this.cameraDriverRef = cameraDriverRef;
     this.livenessStateRef = livenessStateRef;
     this.callbacks = callbacks;
+    this.engine = engine;
+    this.assets = assets;
   }
 
   private drawOverlays(ctx: CanvasRenderingContext2D, normalized: Array<{ x: number; y: number }>) {
@@ -74,7 +108,7 @@ export class FaceMeshService {
     ctx.fillStyle = 'rgb(0, 0, 0)';
     ctx.fillRect(0, 0, w, h);
     
-    const faces = results.multiFaceLandmarks as Array<Array<{ x: number; y: number }>> | undefined;
+    const faces = results.multiFaceLandmarks as Array<Array<{ x: number; y: number; z?: number }>> | undefined;
     const face = faces && faces[0];
     
     if (face) {
@@ -90,6 +124,8 @@ export class FaceMeshService {
         return {
           x: 1 - mappedX,
           y: (p.y * vidH * scale + offsetY) / h,
+          // Depth shares the x scale
+          z: (p.z ?? 0) * vidW * scale / w,
         };
       });
 
@@ -107,6 +143,11 @@ export class FaceMeshService {
       this.drawOverlays(ctx, faceOnCanvas as any);
       
       this.livenessStateRef.current.lastResultsAt = Date.now();
+      // selfieMode mirrors the landmarks; flip them back onto the raw video frame
+      this.livenessStateRef.current.frameLandmarks = face.map(p => ({ x: 1 - p.x, y: p.y }));
+      if (vid) {
+        this.spoofDetector.sample(vid, vidW, vidH, this.livenessStateRef.current.frameLandmarks, Date.now());
+      }
       
       if (this.callbacks.onFaceDetected) {
         this.callbacks.onFaceDetected(faceOnCanvas);
@@ -117,6 +158,8 @@ export class FaceMeshService {
       // Reset face orientation when no face is detected
       this.livenessStateRef.current.currentYaw = null;
       this.livenessStateRef.current.currentAbsYaw = null;
+      this.livenessStateRef.current.headPose = null;
+      this.livenessStateRef.current.frameLandmarks = null;
       
       const vid = this.videoRef.current as HTMLVideoElement | null;
       if (vid) {
@@ -149,143 +192,77 @@ export class FaceMeshService {
     }
   }
 
-  private processLiveness(faceOnCanvas: Array<{ x: number; y: number }>, w: number, h: number) {
-    const eyeA = faceOnCanvas[33];
-    const eyeB = faceOnCanvas[263];
-    const flipX = (p: any) => ({ x: 1 - p.x, y: p.y });
-    const eA = flipX(eyeA);
-    const eB = flipX(eyeB);
-    const n1 = faceOnCanvas[1];
-    const n4 = faceOnCanvas[4];
-    const nT = flipX(n1 && n4 ? { x: (n1.x + n4.x) / 2, y: (n1.y + n4.y) / 2 } : (n1 || n4 || faceOnCanvas[197]));
+  private processLiveness(faceOnCanvas: Array<{ x: number; y: number; z: number }>, w: number, h: number) {
+    // Challenges work on un-mirrored landmarks so LEFT/RIGHT match the user's own sides
+    const landmarks = faceOnCanvas.map(p => ({ x: 1 - p.x, y: p.y, z: p.z }));
+    const eA = landmarks[LANDMARKS.LEFT_EYE_OUTER];
+    const eB = landmarks[LANDMARKS.RIGHT_EYE_OUTER];
+    const n1 = landmarks[LANDMARKS.NOSE_TIP];
+    const n4 = landmarks[LANDMARKS.NOSE_BOTTOM];
+    const nT = n1 && n4 ? { x: (n1.x + n4.x) / 2, y: (n1.y + n4.y) / 2 } : (n1 || n4 || landmarks[LANDMARKS.NOSE_BRIDGE]);
+    if (!eA || !eB || !nT) return;
+
     const leftEyeOuter = eA.x < eB.x ? eA : eB;
     const rightEyeOuter = eA.x < eB.x ? eB : eA;
-    
-    if (leftEyeOuter && rightEyeOuter && nT) {
-      const faceWidth = Math.abs(rightEyeOuter.x - leftEyeOuter.x);
-      const midX = (leftEyeOuter.x + rightEyeOuter.x) / 2;
-      const yaw = (nT.x - midX) / Math.max(1e-6, faceWidth);
-      const absYaw = Math.abs(yaw);
-      
-      // Store current face orientation for capture validation
-      this.livenessStateRef.current.currentYaw = yaw;
-      this.livenessStateRef.current.currentAbsYaw = absYaw;
-      
-      const xs = faceOnCanvas.map(p => p.x), ys = faceOnCanvas.map(p => p.y);
-      const minX = Math.min(...xs) * w, maxX = Math.max(...xs) * w;
-      const minY = Math.min(...ys) * h, maxY = Math.max(...ys) * h;
-      const boxCX = (minX + maxX) / 2, boxCY = (minY + maxY) / 2;
-      const guideCX = w / 2;
-      const guideCY = h / 2;
-      const guideR = Math.min(w, h) * 0.45;
-      const dx = boxCX - guideCX;
-      const dy = boxCY - guideCY;
-      const insideGuide = (dx * dx + dy * dy) <= (guideR * guideR)
-        && (maxX - minX) <= guideR * 2 * 1.05 && (maxY - minY) <= guideR * 2 * 1.05;
-      
-      if (!this.livenessStateRef.current.livenessReady) {
-        this.livenessStateRef.current.livenessReady = true;
-      }
-      
-      const centerThreshold = 0.05;
-      const leftThreshold = 0.08;
-      const rightThreshold = 0.08;
-      const holdFramesCenter = 12;
-      const holdFramesTurn = 12;
-      
-      const state = this.livenessStateRef.current;
-      
-      if (state.stage === "CENTER") {
-        if (!insideGuide) {
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, "Center your face inside the circle");
-          }
-        } else if (absYaw < centerThreshold) {
-          state.centerHold += 1;
-          if (state.centerHold >= holdFramesCenter) {
-            // Only transition to LEFT if liveness check hasn't been completed yet
-            if (!state.livenessCompleted) {
-              const newStage: LivenessStage = "LEFT";
-              state.stage = newStage;
-              state.centerHold = 0;
-              if (this.callbacks.onLivenessUpdate) {
-                this.callbacks.onLivenessUpdate(newStage, "Turn your face LEFT");
-              }
-            }
-          }
-        } else {
-          state.centerHold = 0;
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, yaw > 0 ? "Move your face slightly LEFT" : "Move your face slightly RIGHT");
-          }
-        }
-      } else if (state.stage === "LEFT") {
-        if (faceWidth < 0.08) {
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, "Move closer to the camera");
-          }
-        } else if (yaw < -leftThreshold) {
-          state.leftHold += 1;
-          if (state.leftHold >= holdFramesTurn) {
-            const newStage: LivenessStage = "RIGHT";
-            state.stage = newStage;
-            state.leftHold = 0;
-            if (this.callbacks.onLivenessUpdate) {
-              this.callbacks.onLivenessUpdate(newStage, "Great! Now turn your face RIGHT");
-            }
-          }
-        } else {
-          state.leftHold = 0;
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, yaw > rightThreshold ? "You're facing right. Turn LEFT" : "Turn a bit more LEFT");
-          }
-        }
-      } else if (state.stage === "RIGHT") {
-        if (faceWidth < 0.08) {
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, "Move closer to the camera");
-          }
-        } else if (yaw > rightThreshold) {
-          state.rightHold += 1;
-          if (state.rightHold >= holdFramesTurn) {
-            state.rightHold = 0;
-            // Mark liveness as completed and transition to DONE stage
-            state.livenessCompleted = true;
-            const newStage: LivenessStage = "DONE";
-            state.stage = newStage;
-            state.centerHold = 0;
-            if (this.callbacks.onLivenessUpdate) {
-              this.callbacks.onLivenessUpdate(newStage, "Great! Now look straight at the camera");
-            }
-          }
-        } else {
-          state.rightHold = 0;
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, yaw < -leftThreshold ? "You're facing left. Turn RIGHT" : "Turn a bit more RIGHT");
-          }
-        }
-      } else if (state.stage === "DONE") {
-        // In DONE stage, wait for face to be straight before capturing (no center check needed)
-        // Reduced threshold for easier capture when face is straight
-        const reducedThreshold = 0.08; // More lenient threshold
-        if (absYaw < reducedThreshold) {
-          state.centerHold += 1;
-          if (state.centerHold >= holdFramesCenter && !state.snapTriggered) {
-            state.snapTriggered = true;
-            if (this.callbacks.onLivenessUpdate) {
-              this.callbacks.onLivenessUpdate(state.stage, "Capturing...");
-            }
-            if (this.callbacks.onCaptureTrigger) {
-              this.callbacks.onCaptureTrigger();
-            }
-          }
-        } else {
-          state.centerHold = 0;
-          if (this.callbacks.onLivenessUpdate) {
-            this.callbacks.onLivenessUpdate(state.stage, "Please look straight at the camera");
-          }
-        }
-      }
+    const faceWidth = Math.abs(rightEyeOuter.x - leftEyeOuter.x);
+    const midX = (leftEyeOuter.x + rightEyeOuter.x) / 2;
+    const midY = (leftEyeOuter.y + rightEyeOuter.y) / 2;
+    const yaw = (nT.x - midX) / Math.max(1e-6, faceWidth);
+    const pitch = (nT.y - midY) / Math.max(1e-6, faceWidth);
+
+    // Store current face orientation for capture validation
+    this.livenessStateRef.current.currentYaw = yaw;
+    this.livenessStateRef.current.currentAbsYaw = Math.abs(yaw);
+    const pose = estimateHeadPose(landmarks, w / h);
+    this.livenessStateRef.current.headPose = pose;
+
+    const xs = landmarks.map(p => p.x), ys = landmarks.map(p => p.y);
+    const box = { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+    const boxW = (box.maxX - box.minX) * w, boxH = (box.maxY - box.minY) * h;
+    // The box is mirrored on screen, which doesn't change its distance from the centered guide
+    const boxCX = (1 - (box.minX + box.maxX) / 2) * w, boxCY = ((box.minY + box.maxY) / 2) * h;
+    const guideR = Math.min(w, h) * 0.45;
+    const dx = boxCX - w / 2;
+    const dy = boxCY - h / 2;
+    const insideGuide = (dx * dx + dy * dy) <= (guideR * guideR)
+      && boxW <= guideR * 2 * 1.05 && boxH <= guideR * 2 * 1.05;
+
+    const state = this.livenessStateRef.current;
+    if (!state.livenessReady) {
+      state.livenessReady = true;
+    }
+
+    const frame = {
+      landmarks,
+      yaw,
+      pitch,
+      pose,
+      faceWidth,
+      box,
+      insideGuide,
+      timestamp: Date.now(),
+    };
+    if (this.blinkDetector.update(frame) || !state.blink || state.blink.calibrated !== this.blinkDetector.calibrated) {
+      state.blink = this.blinkDetector.signal;
+    }
+    this.spoofDetector.update(frame, w / h);
+    state.spoof = this.spoofDetector.signal;
+
+    const update = this.engine.process(frame);
+
+    state.stage = update.stage;
+    if (this.engine.completed) {
+      state.livenessCompleted = true;
+    }
+    if (update.captureTriggered) {
+      state.snapTriggered = true;
+    }
+
+    if (this.callbacks.onLivenessUpdate) {
+      this.callbacks.onLivenessUpdate(update.stage, update.instruction);
+    }
+    if (update.captureTriggered && this.callbacks.onCaptureTrigger) {
+      this.callbacks.onCaptureTrigger();
     }
   }
 
@@ -327,9 +304,17 @@ export class FaceMeshService {
 
   async initialize(): Promise<void> {
     try {
-      const fm = new FaceMesh({ 
-        locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619/${file}` 
-      });
+      let locateFile = createAssetResolver(this.assets);
+      if (this.assets.preload || this.assets.integrity) {
+        locateFile = await preloadFaceMeshAssets(this.assets, (progress) => {
+          if (!this.cancelled && this.callbacks.onModelProgress) {
+            this.callbacks.onModelProgress(progress);
+          }
+        });
+        if (this.cancelled) return;
+      }
+
+      const fm = new FaceMesh({ locateFile });
       fm.setOptions({
         selfieMode: true,
         maxNumFaces: 1,
@@ -0,0 +1,217 @@
+/**
+ * Face image quality analysis
+ * Scores a captured frame so obviously unusable images are retaken before upload
+ */
+
+import { LEFT_EYE_CONTOUR, RIGHT_EYE_CONTOUR, type FaceLandmark } from './liveness';
+
+export const FaceQualityIssue = {
+  BLURRY: 'BLURRY',
+  TOO_DARK: 'TOO_DARK',
+  TOO_BRIGHT: 'TOO_BRIGHT',
+  GLARE: 'GLARE',
+  FACE_TOO_SMALL: 'FACE_TOO_SMALL',
+  EYES_OCCLUDED: 'EYES_OCCLUDED',
+  MOUTH_OCCLUDED: 'MOUTH_OCCLUDED',
+} as const;
+
+export type FaceQualityIssue = (typeof FaceQualityIssue)[keyof typeof FaceQualityIssue];
+
+export interface FaceQualityScores {
+  /** Variance of the Laplacian over the face, higher is sharper */
+  sharpness: number;
+  /** Mean face luminance, 0-255 */
+  brightness: number;
+  /** Fraction of face pixels that are blown out */
+  glare: number;
+  /** Face width relative to the frame width, 0 when no face was given */
+  faceSize: number;
+  /** Luminance contrast around the eyes, null when no face was given */
+  eyeContrast: number | null;
+  /** Luminance contrast around the mouth, null when no face was given */
+  mouthContrast: number | null;
+}
+
+export interface FaceQualityThresholds {
+  minSharpness: number;
+  minBrightness: number;
+  maxBrightness: number;
+  maxGlare: number;
+  minFaceSize: number;
+  /** Below this the eyes are taken as covered (hand, sunglasses) */
+  minEyeContrast: number;
+  /** Eyes darker than this fraction of the face also count as covered */
+  minEyeBrightnessRatio: number;
+  minMouthContrast: number;
+}
+
+export interface FaceQualityReport {
+  passed: boolean;
+  scores: FaceQualityScores;
+  issues: FaceQualityIssue[];
+  /** Instruction for the most pressing issue, null when passed */
+  guidance: string | null;
+}
+
+export const DEFAULT_FACE_QUALITY_THRESHOLDS: FaceQualityThresholds = {
+  minSharpness: 35,
+  minBrightness: 60,
+  maxBrightness: 210,
+  maxGlare: 0.08,
+  minFaceSize: 0.2,
+  minEyeContrast: 10,
+  minEyeBrightnessRatio: 0.45,
+  minMouthContrast: 8,
+};
+
+const GUIDANCE: Record<FaceQualityIssue, string> = {
+  FACE_TOO_SMALL: 'Move closer to the camera',
+  TOO_DARK: 'Move to a brighter place',
+  TOO_BRIGHT: 'Too bright. Move away from direct light',
+  GLARE: 'Avoid glare on your face',
+  EYES_OCCLUDED: 'Make sure your eyes are visible. Remove sunglasses',
+  MOUTH_OCCLUDED: 'Make sure your mouth is visible. Remove any mask',
+  BLURRY: 'Hold still, the image is blurry',
+};
+
+const MOUTH_POINTS = [61, 291, 0, 17];
+// Larger regions are sampled down to this many pixels per side
+const MAX_SAMPLE_SIZE = 256;
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface GrayRegion {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+function boundingRegion(points: FaceLandmark[], image: ImageData, padding: number): Region {
+  const xs = points.map((p) => p.x * image.width);
+  const ys = points.map((p) => p.y * image.height);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const padX = (maxX - minX) * padding, padY = (maxY - minY) * padding;
+  const x = Math.max(0, Math.floor(minX - padX));
+  const y = Math.max(0, Math.floor(minY - padY));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(image.width, Math.ceil(maxX + padX)) - x),
+    height: Math.max(1, Math.min(image.height, Math.ceil(maxY + padY)) - y),
+  };
+}
+
+function toGray(image: ImageData, region: Region): GrayRegion {
+  const step = Math.max(1, Math.ceil(Math.max(region.width, region.height) / MAX_SAMPLE_SIZE));
+  const width = Math.max(1, Math.floor(region.width / step));
+  const height = Math.max(1, Math.floor(region.height / step));
+  const data = new Float32Array(width * height);
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const offset = ((region.y + j * step) * image.width + (region.x + i * step)) * 4;
+      data[j * width + i] = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+    }
+  }
+  return { data, width, height };
+}
+
+function meanAndDeviation(gray: GrayRegion): { mean: number; deviation: number } {
+  let sum = 0, sumSq = 0;
+  for (const value of gray.data) {
+    sum += value;
+    sumSq += value * value;
+  }
+  const mean = sum / gray.data.length;
+  return { mean, deviation: Math.sqrt(Math.max(0, sumSq / gray.data.length - mean * mean)) };
+}
+
+function laplacianVariance(gray: GrayRegion): number {
+  const { data, width, height } = gray;
+  if (width < 3 || height < 3) return 0;
+  let sum = 0, sumSq = 0, count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+/**
+ * Score a frame and list the issues that should block the capture.
+ *
+ * @param image - the frame as it will be uploaded
+ * @param landmarks - FaceMesh landmarks normalized to the same frame; without
+ *   them the whole frame is scored and size/occlusion checks are skipped
+ */
+export function analyzeFaceQuality(
+  image: ImageData,
+  landmarks: FaceLandmark[] | null,
+  thresholds: Partial<FaceQualityThresholds> = {}
+): FaceQualityReport {
+  const limits = { ...DEFAULT_FACE_QUALITY_THRESHOLDS, ...thresholds };
+  const faceRegion = landmarks && landmarks.length > 0
+    ? boundingRegion(landmarks, image, 0)
+    : { x: 0, y: 0, width: image.width, height: image.height };
+
+  const face = toGray(image, faceRegion);
+  const { mean: brightness } = meanAndDeviation(face);
+  let blownOut = 0;
+  for (const value of face.data) {
+    if (value >= 245) blownOut++;
+  }
+
+  const scores: FaceQualityScores = {
+    sharpness: laplacianVariance(face),
+    brightness,
+    glare: blownOut / face.data.length,
+    faceSize: landmarks ? faceRegion.width / image.width : 0,
+    eyeContrast: null,
+    mouthContrast: null,
+  };
+
+  // Pushed in priority order: fixing distance or lighting often fixes the rest
+  const issues: FaceQualityIssue[] = [];
+  if (landmarks && scores.faceSize < limits.minFaceSize) issues.push(FaceQualityIssue.FACE_TOO_SMALL);
+  if (scores.brightness < limits.minBrightness) issues.push(FaceQualityIssue.TOO_DARK);
+  if (scores.brightness > limits.maxBrightness) issues.push(FaceQualityIssue.TOO_BRIGHT);
+  if (scores.glare > limits.maxGlare) issues.push(FaceQualityIssue.GLARE);
+
+  if (landmarks) {
+    const eyes = [LEFT_EYE_CONTOUR, RIGHT_EYE_CONTOUR].map((contour) => {
+      const points = contour.map((index) => landmarks[index]).filter(Boolean);
+      return meanAndDeviation(toGray(image, boundingRegion(points, image, 0.3)));
+    });
+    const mouthPoints = MOUTH_POINTS.map((index) => landmarks[index]).filter(Boolean);
+    const mouth = meanAndDeviation(toGray(image, boundingRegion(mouthPoints, image, 0.2)));
+
+    scores.eyeContrast = Math.min(...eyes.map((eye) => eye.deviation));
+    scores.mouthContrast = mouth.deviation;
+
+    const darkestEye = Math.min(...eyes.map((eye) => eye.mean));
+    if (scores.eyeContrast < limits.minEyeContrast || darkestEye < brightness * limits.minEyeBrightnessRatio) {
+      issues.push(FaceQualityIssue.EYES_OCCLUDED);
+    }
+    if (scores.mouthContrast < limits.minMouthContrast) issues.push(FaceQualityIssue.MOUTH_OCCLUDED);
+  }
+
+  if (scores.sharpness < limits.minSharpness) issues.push(FaceQualityIssue.BLURRY);
+
+  return {
+    passed: issues.length === 0,
+    scores,
+    issues,
+    guidance: issues.length > 0 ? GUIDANCE[issues[0]] : null,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Image processing pipeline
+ * Resizes, orients, strips metadata from and compresses images before upload
+ */
+
+import { UnsupportedFileError } from './kycErrors';
+
+export type ImageOutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface ImageProcessingOptions {
+  /** Longest side of the output in pixels */
+  maxDimension: number;
+  /** WebP falls back to JPEG in browsers that cannot encode it */
+  format: ImageOutputFormat;
+  /** Encoder quality to start from, 0-1 */
+  quality: number;
+  /** Target size in bytes; quality and then dimensions are lowered until the image fits */
+  maxBytes?: number;
+  /** Lowest quality tried before the image is scaled down instead */
+  minQuality: number;
+  /** Converts HEIC/HEIF photos to a format the browser can decode (e.g. heic2any) */
+  heicDecoder?: (blob: Blob) => Promise<Blob>;
+  /** PDFs are passed through unchanged up to this size */
+  maxPdfBytes: number;
+}
+
+/**
+ * Per-kind overrides for the images `KycApiService` uploads
+ */
+export interface ImageProcessingConfig {
+  face?: Partial<ImageProcessingOptions>;
+  document?: Partial<ImageProcessingOptions>;
+}
+
+export const DEFAULT_IMAGE_PROCESSING_OPTIONS: ImageProcessingOptions = {
+  maxDimension: 2048,
+  format: 'image/jpeg',
+  quality: 0.92,
+  minQuality: 0.6,
+  maxPdfBytes: 10 * 1024 * 1024,
+};
+
+export const FACE_IMAGE_OPTIONS: Partial<ImageProcessingOptions> = {
+  maxDimension: 1280,
+  maxBytes: 500 * 1024,
+};
+
+export const DOCUMENT_IMAGE_OPTIONS: Partial<ImageProcessingOptions> = {
+  maxDimension: 2048,
+  maxBytes: 1536 * 1024,
+};
+
+// Below this the image is sent as it is rather than shrunk further to meet maxBytes
+const MIN_DIMENSION = 640;
+const QUALITY_STEP = 0.1;
+const DOWNSCALE_STEP = 0.8;
+
+export interface JpegInfo {
+  /** EXIF orientation, 1-8; 1 when the file has none */
+  orientation: number;
+  /** Stored pixel size, before orientation is applied */
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the EXIF orientation and stored size of a JPEG, or null for other files
+ */
+export function readJpegInfo(buffer: ArrayBuffer): JpegInfo | null {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 "Exif\0\0" followed by a TIFF header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = ifd + 2 <= view.byteLength ? view.getUint16(ifd, little) : 0;
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          if (value >= 1 && value <= 8) orientation = value;
+          break;
+        }
+      }
+    }
+
+    // Start of frame (SOF0-SOF15, minus DHT, JPG and DAC) carries the stored size
+    if (marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+      if (offset + 9 > view.byteLength) return null;
+      return { orientation, height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function isHeic(blob: Blob): boolean {
+  const name = (blob as File).name?.toLowerCase() ?? '';
+  return /^image\/hei[cf]/.test(blob.type) || name.endsWith('.heic') || name.endsWith('.heif');
+}
+
+function isPdf(blob: Blob): boolean {
+  const name = (blob as File).name?.toLowerCase() ?? '';
+  return blob.type === 'application/pdf' || name.endsWith('.pdf');
+}
+
+type DecodedImage = ImageBitmap | HTMLImageElement;
+
+async function decode(blob: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to an <img>, which some browsers decode more formats with
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function sizeOf(image: DecodedImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+/**
+ * Draw the image upright and scaled to fit `maxDimension`. `orientation` is the
+ * EXIF orientation still to apply; 1 when the browser already applied it.
+ */
+function drawOriented(image: DecodedImage, orientation: number, maxDimension: number): HTMLCanvasElement {
+  const { width: rawWidth, height: rawHeight } = sizeOf(image);
+  const swap = orientation >= 5;
+  const uprightWidth = swap ? rawHeight : rawWidth;
+  const uprightHeight = swap ? rawWidth : rawHeight;
+  const scale = Math.min(1, maxDimension / Math.max(uprightWidth, uprightHeight));
+  const width = Math.max(1, Math.round(uprightWidth * scale));
+  const height = Math.max(1, Math.round(uprightHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+  ctx.imageSmoothingQuality = 'high';
+  if (swap) {
+    ctx.drawImage(image, 0, 0, height, width);
+  } else {
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+  return canvas;
+}
+
+function scaleCanvas(source: HTMLCanvasElement, factor: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * factor));
+  canvas.height = Math.max(1, Math.round(source.height * factor));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+async function encode(canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number): Promise<Blob> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, format, quality));
+  // Browsers that cannot encode the format silently return PNG
+  if (blob && blob.type === format) return blob;
+  if (format !== 'image/jpeg') return encode(canvas, 'image/jpeg', quality);
+  if (!blob) throw new Error('Could not encode image');
+  return blob;
+}
+
+/**
+ * Encode at decreasing quality, then decreasing size, until the image fits `maxBytes`
+ */
+export async function compressCanvas(canvas: HTMLCanvasElement, options: Partial<ImageProcessingOptions> = {}): Promise<Blob> {
+  const { format, quality, minQuality, maxBytes } = { ...DEFAULT_IMAGE_PROCESSING_OPTIONS, ...options };
+  let current = canvas;
+  let q = quality;
+  for (;;) {
+    const blob = await encode(current, format, q);
+    if (!maxBytes || blob.size <= maxBytes) return blob;
+    if (q - QUALITY_STEP >= minQuality - 1e-6) {
+      q -= QUALITY_STEP;
+    } else if (Math.max(current.width, current.height) * DOWNSCALE_STEP >= MIN_DIMENSION) {
+      current = scaleCanvas(current, DOWNSCALE_STEP);
+      q = quality;
+    } else {
+      return blob;
+    }
+  }
+}
+
+function renamed(original: Blob, blob: Blob): Blob {
+  const name = (original as File).name;
+  if (!name) return blob;
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return new File([blob], `${name.replace(/\.[^.]+$/, '')}.${extension}`, { type: blob.type });
+}
+
+/**
+ * Prepare an image for upload: convert HEIC, apply the EXIF orientation, scale
+ * to `maxDimension` and compress. Re-encoding drops all metadata, GPS included.
+ * PDFs are passed through unchanged. Files keep their name with the new extension.
+ */
+export async function processImage(input: Blob, options: Partial<ImageProcessingOptions> = {}): Promise<Blob> {
+  const opts = { ...DEFAULT_IMAGE_PROCESSING_OPTIONS, ...options };
+
+  if (isPdf(input)) {
+    if (input.size > opts.maxPdfBytes) {
+      throw new UnsupportedFileError(`PDF files must be smaller than ${Math.round(opts.maxPdfBytes / 1024 / 1024)} MB.`);
+    }
+    return input;
+  }
+  if (!input.type.startsWith('image/') && !isHeic(input)) {
+    throw new UnsupportedFileError();
+  }
+
+  let source = input;
+  let image: DecodedImage;
+  try {
+    image = await decode(source);
+  } catch (error) {
+    // Only Safari decodes HEIC natively
+    if (!isHeic(input) || !opts.heicDecoder) {
+      throw new UnsupportedFileError(
+        isHeic(input) ? 'HEIC photos are not supported in this browser. Please use a JPEG or PNG.' : undefined,
+        error
+      );
+    }
+    try {
+      source = await opts.heicDecoder(input);
+      image = await decode(source);
+    } catch (heicError) {
+      throw new UnsupportedFileError(undefined, heicError);
+    }
+  }
+
+  try {
+    // Browsers apply EXIF orientation while decoding; older ones are caught by a
+    // rotated photo still having its stored size, and are rotated here instead
+    let orientation = 1;
+    if (source.type === 'image/jpeg') {
+      const info = readJpegInfo(await source.slice(0, 256 * 1024).arrayBuffer());
+      const { width, height } = sizeOf(image);
+      if (info && info.orientation >= 5 && info.width !== info.height && width === info.width && height === info.height) {
+        orientation = info.orientation;
+      }
+    }
+    const canvas = drawOriented(image, orientation, opts.maxDimension);
+    return renamed(input, await compressCanvas(canvas, opts));
+  } finally {
+    if (!(image instanceof HTMLImageElement)) image.close();
+  }
+}
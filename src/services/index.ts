@@ -1,5 +1,77 @@
 export { FaceMeshService } from './faceMeshService';
-export type { LivenessStage, FaceMeshServiceCallbacks, LivenessState } from './faceMeshService';
-export { KycApiService } from './kycApiService';
-export type { KycApiConfig, SessionStatusResponse, FaceScanResponse, DocumentUploadResponse } from './kycApiService';
+export type { FaceMeshServiceCallbacks, LivenessState } from './faceMeshService';
+export { KycApiService, DOCUMENT_SIDE_FIELDS, FACE_VIDEO_FIELD } from './kycApiService';
+export type { KycApiConfig, SessionStatusResponse, FaceScanResponse, DocumentUploadResponse, DocumentSide, DocumentImages, DocumentCaptureMetadata, FaceCaptureMetadata, FaceScanMedia, UploadOptions, SessionStatusOptions, SessionStatusListener, ResumedUpload, ResumedUploadListener, RetrySessionResponse, HandoffTokenResponse, HandoffRedeemResponse } from './kycApiService';
 
+export {
+  KycErrorCode,
+  KycError,
+  SessionExpiredError,
+  SessionCompletedError,
+  FaceAlreadyRegisteredError,
+  LivenessRejectedError,
+  DocumentRejectedError,
+  UnauthorizedError,
+  RateLimitedError,
+  KycServerError,
+  KycNetworkError,
+  KycTimeoutError,
+  HandoffTokenInvalidError,
+  UnsupportedFileError,
+  KycAbortedError,
+  DeviceIntegrityError,
+  CameraAccessError,
+  LivenessUnavailableError,
+  isKycError,
+} from './kycErrors';
+export { KycSession, resolveKycStep } from './kycSession';
+export type { KycStep, KycSessionStatus, KycSessionState, KycSessionListener, KycStepGuard, KycSessionOptions } from './kycSession';
+export { PollingTransport, EventSourceTransport, WebSocketTransport, parseSessionMessage } from './sessionTransport';
+export type { SessionTransport, SessionTransportHandlers, SessionUpdate, SessionStatusData, PollingTransportOptions } from './sessionTransport';
+export {
+  LivenessChallengeEngine,
+  CENTER_STAGE,
+  DONE_STAGE,
+  registerLivenessChallenge,
+  getLivenessChallengeIds,
+  createLivenessChallenge,
+  createLivenessSequence,
+  TurnHeadChallenge,
+  NodHeadChallenge,
+  BlinkChallenge,
+  SmileChallenge,
+  OpenMouthChallenge,
+  MoveCloserChallenge,
+  BlinkDetector,
+  SpoofDetector,
+  DEFAULT_SPOOF_WEIGHTS,
+  estimateHeadPose,
+  headPoseGuidance,
+} from './liveness';
+export type { LivenessStage, LivenessFrame, LivenessChallenge, LivenessChallengeFactory, ChallengeResult, FaceLandmark, LivenessEngineOptions, LivenessSequenceOptions, BlinkDetectorOptions, BlinkSignal, SpoofDetectorOptions, SpoofSignal, SpoofCues, SpoofCue, HeadPose, HeadPoseTolerance } from './liveness';
+export { analyzeFaceQuality, FaceQualityIssue, DEFAULT_FACE_QUALITY_THRESHOLDS } from './faceQuality';
+export type { FaceQualityScores, FaceQualityThresholds, FaceQualityReport } from './faceQuality';
+export { createAssetResolver, preloadFaceMeshAssets, getFaceMeshAssetFiles, AssetIntegrityError, DEFAULT_FACE_MESH_BASE_URL, FACE_MESH_VERSION } from './mediapipeAssets';
+export type { FaceMeshAssetOptions, AssetLoadProgress, AssetProgressListener } from './mediapipeAssets';
+export { detectDocument, detectDocumentInFrame, flattenDocument, warpDocument, scaleQuad, toLandscape, DOCUMENT_ASPECT_RATIOS } from './documentDetection';
+export type { Point, DocumentQuad, DocumentDetection, DocumentDetectorOptions } from './documentDetection';
+export { DocumentAutoCapture, DEFAULT_DOCUMENT_AUTO_CAPTURE_OPTIONS } from './documentAutoCapture';
+export type { DocumentAutoCaptureOptions, DocumentAutoCaptureStatus } from './documentAutoCapture';
+export { DEFAULT_DOCUMENT_TYPES, DEFAULT_DOCUMENT_ACCEPT, AAMVA_BARCODE, defineDocumentTypes, fromServerDocumentTypes, getDocumentCountries, isAcceptedFile } from './documentTypes';
+export type { DocumentTypeDefinition, DocumentTypeConfig, DocumentMrzSpec, DocumentBarcodeSpec, ServerDocumentType } from './documentTypes';
+export { readMrz, parseMrz, locateMrz, mrzCheckDigit } from './mrz';
+export type { MrzFormat, MrzFields, MrzResult, MrzRegion, MrzReadResult, MrzTextRecognizer } from './mrz';
+export { readAamvaBarcode, parseAamva } from './aamva';
+export type { AamvaLicense, AamvaAddress, AamvaParseResult, AamvaReadResult, BarcodeDecoder } from './aamva';
+export { UploadQueue, waitForConnectivity, createIdempotencyKey } from './uploadQueue';
+export type { QueuedUpload, UploadField } from './uploadQueue';
+export { checkDeviceIntegrity, DeviceIntegrityIssue, VIRTUAL_CAMERA_SIGNATURES } from './deviceIntegrity';
+export type { DeviceIntegrityReport, DeviceIntegrityFinding, DeviceIntegrityOptions, DeviceIntegrityPolicy, DeviceFrameTiming, DeviceRisk } from './deviceIntegrity';
+export { CameraManager, CameraErrorKind, classifyCameraError, toCameraError, cameraPermissionHelp } from './cameraManager';
+export type { CameraDevice, CameraFacing, CameraResolution, CameraManagerOptions, CameraPermissionHelp } from './cameraManager';
+export { LivenessMode, LivenessFallbackReason, livenessFallbackMode } from './livenessFallback';
+export type { LivenessFallbackPolicy, LivenessModeRecord } from './livenessFallback';
+export { VideoSelfieRecorder, extractVideoFrame, isVideoSelfieSupported, videoSelfieMimeType, LIVENESS_VIDEO_OPTIONS } from './videoSelfie';
+export type { VideoSelfie, VideoSelfieOptions, VideoSelfieMarker, VideoSelfieInfo } from './videoSelfie';
+export { processImage, compressCanvas, readJpegInfo, DEFAULT_IMAGE_PROCESSING_OPTIONS, FACE_IMAGE_OPTIONS, DOCUMENT_IMAGE_OPTIONS } from './imageProcessing';
+export type { ImageProcessingOptions, ImageProcessingConfig, ImageOutputFormat, JpegInfo } from './imageProcessing';
@@ -3,6 +3,21 @@
  * Handles all KYC-related API calls (face scan, document upload, status check)
  */
 
+import { ApiClient } from '../sdk/client';
+import { mergeConfig } from '../sdk/config';
+import { KycAbortedError, KycErrorCode, KycNetworkError, SessionCompletedError, SessionExpiredError, isKycError, toKycError } from './kycErrors';
+import type { FaceQualityScores } from './faceQuality';
+import type { BlinkSignal, SpoofSignal } from './liveness';
+import type { DeviceIntegrityPolicy, DeviceIntegrityReport } from './deviceIntegrity';
+import type { LivenessFallbackPolicy, LivenessModeRecord } from './livenessFallback';
+import { videoSelfieExtension, type VideoSelfieInfo } from './videoSelfie';
+import type { ServerDocumentType } from './documentTypes';
+import type { MrzFields } from './mrz';
+import type { AamvaLicense } from './aamva';
+import { processImage, FACE_IMAGE_OPTIONS, DOCUMENT_IMAGE_OPTIONS, type ImageProcessingConfig } from './imageProcessing';
+import { UploadQueue, createIdempotencyKey, waitForConnectivity, type QueuedUpload, type UploadField } from './uploadQueue';
+import type { UploadProgress } from '../sdk/types';
+
 export const COMPLETED_STEPS = {
   INITIATED: "initiated",
   FACE: "face_scan",
@@ -13,10 +28,52 @@ export const COMPLETED_STEPS = {
 export interface KycApiConfig {
   apiBaseUrl: string;
   sessionId: string;
-  serverKey: string;
+  /** Merchant secret; desktop only. Mobile devices authenticate with `accessToken` instead. */
+  serverKey?: string;
+  /** Session-scoped token obtained by redeeming a handoff token */
+  accessToken?: string;
   deviceType?: string;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  /** Overrides for the resize/compress step every image goes through before upload; `false` uploads images as captured */
+  imageProcessing?: ImageProcessingConfig | false;
+  /** Keep uploads that fail for lack of network in IndexedDB and send them once back online. Defaults to true. */
+  offlineQueue?: boolean;
+  /** How long a fetched session status is reused, in ms. Defaults to 5000; 0 always fetches (concurrent requests are still shared). */
+  statusCacheTtl?: number;
+}
+
+export interface UploadOptions {
+  /** Cancels the upload, including one waiting for the network; it then fails with `KycAbortedError` */
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called whenever an attempt failed for lack of network and the upload waits to try again */
+  onQueued?: () => void;
+  /** Sent as the `Idempotency-Key` header; generated when omitted */
+  idempotencyKey?: string;
+}
+
+export interface SessionStatusOptions {
+  /** Skip the cache; a request already in flight is still shared */
+  force?: boolean;
 }
 
+export type SessionStatusListener = (
+  status: SessionStatusResponse['data'],
+  previous: SessionStatusResponse['data'] | null
+) => void;
+
+/**
+ * A queued upload that `resumeQueuedUploads` sent, with the server's response
+ */
+export interface ResumedUpload {
+  upload: QueuedUpload;
+  response: FaceScanResponse | DocumentUploadResponse;
+}
+
+export type ResumedUploadListener = (resumed: ResumedUpload) => void;
+
 export interface SessionStatusResponse {
   status: string;
   message: string;
@@ -25,26 +82,186 @@ export interface SessionStatusResponse {
     status: 'ACTIVE' | 'INACTIVE' | 'EXPIRED' | 'COMPLETED';
     completed_steps: string[];
     next_step: string;
+    /** True once a phone has redeemed the handoff and opened the session */
+    device_connected?: boolean;
+    /** Optional server-chosen liveness challenges or seed for this session */
+    liveness?: {
+      challenges?: string[];
+      seed?: string | number;
+    };
+    /** Optional document types accepted for this session, replacing the client's list */
+    document_types?: ServerDocumentType[];
+    /** Optional camera integrity policy for this session, replacing the client's `deviceIntegrity` */
+    device_integrity?: DeviceIntegrityPolicy;
+    /** Optional liveness fallback policy for this session, replacing the client's `livenessFallback` */
+    liveness_fallback?: LivenessFallbackPolicy;
+    /** Optional override of the client's `allowSelfieUpload` for this session */
+    allow_selfie_upload?: boolean;
   };
 }
 
+/**
+ * Client-side signals sent alongside the face image
+ */
+export interface FaceCaptureMetadata {
+  /** Liveness challenge ids completed before the capture, in order */
+  challenges?: string[];
+  /** Passive blink signal gathered during the scan */
+  blink?: BlinkSignal | null;
+  /** Passive presentation-attack score and its cues */
+  spoof?: SpoofSignal | null;
+  /** Camera integrity findings (virtual camera, injected stream), null when the check hadn't finished */
+  device?: DeviceIntegrityReport | null;
+  /** Client-side quality scores of the uploaded image */
+  quality?: FaceQualityScores;
+  /** Whether liveness ran, or which fallback stood in for it */
+  liveness?: LivenessModeRecord;
+  /** Length and challenge timestamps of the video sent as `face_scan_video`, null when none was sent */
+  video?: VideoSelfieInfo | null;
+}
+
+/**
+ * A face image with the video selfie recorded alongside it
+ */
+export interface FaceScanMedia {
+  image: Blob | File;
+  video?: Blob | File | null;
+}
+
+/**
+ * Multipart field the video selfie is sent as, next to `face_scan_img`
+ */
+export const FACE_VIDEO_FIELD = 'face_scan_video';
+
 export interface FaceScanResponse {
   status: string;
   message: string;
   data?: unknown;
 }
 
+export type DocumentSide = 'front' | 'back';
+
+/**
+ * Document images keyed by side. A passport only has a `front` (the data page).
+ */
+export type DocumentImages = Partial<Record<DocumentSide, Blob | File>>;
+
+/**
+ * Multipart field each side is sent as. The front keeps the original single-image field.
+ */
+export const DOCUMENT_SIDE_FIELDS: Record<DocumentSide, string> = {
+  front: 'docs_scan_img',
+  back: 'docs_scan_img_back',
+};
+
+/**
+ * Client-side checks sent alongside the document images
+ */
+export interface DocumentCaptureMetadata {
+  /** Machine-readable zone read from the document */
+  mrz?: {
+    fields: MrzFields;
+    checks: Record<string, boolean>;
+    valid: boolean;
+  };
+  /** Holder details decoded from the document's barcode */
+  barcode?: {
+    format: 'pdf417';
+    fields: AamvaLicense;
+    valid: boolean;
+  };
+}
+
 export interface DocumentUploadResponse {
   status: string;
   message: string;
   data?: unknown;
 }
 
+export interface RetrySessionResponse {
+  status: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface HandoffTokenResponse {
+  status: string;
+  message: string;
+  data: {
+    token: string;
+    expires_at: string;
+  };
+}
+
+export interface HandoffRedeemResponse {
+  status: string;
+  message: string;
+  data: {
+    access_token: string;
+    expires_at: string;
+  };
+}
+
+const DEFAULT_STATUS_CACHE_TTL_MS = 5000;
+
+// Wait between attempts while the network is down, doubling up to the maximum
+const UPLOAD_RETRY_DELAY_MS = 2000;
+const UPLOAD_MAX_RETRY_DELAY_MS = 30000;
+// Failures while the browser claims to be online (timeouts, CORS, DNS, an unreachable host) may
+// never clear; only an offline browser is waited for without limit
+const UPLOAD_MAX_ONLINE_FAILURES = 3;
+
+function toFormData(fields: UploadField[]): FormData {
+  const formData = new FormData();
+  for (const field of fields) {
+    if ('fileName' in field) {
+      formData.append(field.name, field.value, field.fileName);
+    } else {
+      formData.append(field.name, field.value);
+    }
+  }
+  return formData;
+}
+
 export class KycApiService {
   private config: KycApiConfig;
+  private client: ApiClient;
+  private queue = new UploadQueue();
+  // Uploads this instance is sending, so a resume does not send them twice
+  private sending = new Set<string>();
+  private statusCache: { response: SessionStatusResponse; fetchedAt: number } | null = null;
+  private statusRequest: Promise<SessionStatusResponse> | null = null;
+  // Bumped on invalidation so a request started before a mutation does not refill the cache
+  private statusGeneration = 0;
+  private statusListeners = new Set<SessionStatusListener>();
+  private resumeListeners = new Set<ResumedUploadListener>();
+  private lastStatus: SessionStatusResponse['data'] | null = null;
 
   constructor(config: KycApiConfig) {
     this.config = config;
+    this.client = this.createClient();
+  }
+
+  /**
+   * Build the transport for the current session. Every endpoint lives under
+   * the session path, so it becomes the client's base URL.
+   */
+  private createClient(): ApiClient {
+    const apiBaseUrl = this.config.apiBaseUrl.replace(/\/+$/, '');
+    return new ApiClient(
+      mergeConfig({
+        apiKey: this.config.accessToken || '',
+        baseURL: `${apiBaseUrl}/api/v2/dashboard/merchant/onsite/session/${this.config.sessionId}/`,
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        retryDelay: this.config.retryDelay,
+        credentials: 'include',
+        headers: {
+          ...(this.config.serverKey ? { 'x-server-key': this.config.serverKey } : {}),
+          'device-type': this.config.deviceType || this.detectDeviceType(),
+        },
+      })
+    );
   }
 
   /**
@@ -59,174 +276,323 @@ export class KycApiService {
   }
 
   /**
-   * Get session status
+   * Get session status. Served from cache for `statusCacheTtl` ms; callers
+   * asking while a request is in flight share it.
    */
-  async getSessionStatus(): Promise<SessionStatusResponse> {
-    const deviceType = this.config.deviceType || this.detectDeviceType();
-    
-    try {
-      const response = await fetch(
-        `${this.config.apiBaseUrl}/api/v2/dashboard/merchant/onsite/session/${this.config.sessionId}/status`,
-        {
-          method: 'GET',
-          headers: {
-            'x-server-key': this.config.serverKey,
-            'device-type': deviceType,
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-        }
-      );
+  async getSessionStatus(options: SessionStatusOptions = {}): Promise<SessionStatusResponse> {
+    const ttl = this.config.statusCacheTtl ?? DEFAULT_STATUS_CACHE_TTL_MS;
+    if (!options.force && this.statusCache && Date.now() - this.statusCache.fetchedAt < ttl) {
+      return this.statusCache.response;
+    }
+    if (this.statusRequest) {
+      return this.statusRequest;
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const message = errorData?.message || `Status fetch failed with status ${response.status}`;
-        throw new Error(message);
+    const generation = this.statusGeneration;
+    const request = (async () => {
+      try {
+        const response = await this.client.get<SessionStatusResponse>('status');
+        return response.data;
+      } catch (error) {
+        throw toKycError(error, 'status');
       }
+    })()
+      .then((response) => {
+        if (generation === this.statusGeneration) {
+          this.statusCache = { response, fetchedAt: Date.now() };
+          this.notifyStatus(response.data);
+        }
+        return response;
+      })
+      .finally(() => {
+        if (this.statusRequest === request) this.statusRequest = null;
+      });
+    this.statusRequest = request;
+    return request;
+  }
 
-      const data = await response.json();
-      return data;
-    } catch (error: any) {
-      const message = error?.message || 'Status fetch failed';
-      throw new Error(`Status fetch failed: ${message}`);
+  /**
+   * Drop the cached status so the next read goes to the server. Called after
+   * every request that can change the session.
+   */
+  invalidateSessionStatus(): void {
+    this.statusGeneration++;
+    this.statusCache = null;
+    this.statusRequest = null;
+  }
+
+  /**
+   * Listen for changes of the session status, whoever fetched it. Called with
+   * the first status too. Returns an unsubscribe function.
+   */
+  onStatusChange(listener: SessionStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for queued uploads sent by `resumeQueuedUploads`, e.g. to count a
+   * step an earlier page left queued as done. Returns an unsubscribe function.
+   */
+  onUploadResumed(listener: ResumedUploadListener): () => void {
+    this.resumeListeners.add(listener);
+    return () => {
+      this.resumeListeners.delete(listener);
+    };
+  }
+
+  private notifyStatus(status: SessionStatusResponse['data']): void {
+    const previous = this.lastStatus;
+    if (previous && JSON.stringify(previous) === JSON.stringify(status)) return;
+    this.lastStatus = status;
+    for (const listener of [...this.statusListeners]) {
+      try {
+        listener(status, previous);
+      } catch (error) {
+        console.error('Session status listener failed:', error);
+      }
     }
   }
 
   /**
-   * Upload face scan image
+   * Upload face scan image. Pass `{ image, video }` to send a video selfie with it.
    */
-  async uploadFaceScan(faceBlob: Blob | File): Promise<FaceScanResponse> {
-    // Check session status first
-    await this.checkSessionActive();
+  async uploadFaceScan(face: Blob | File | FaceScanMedia, metadata?: FaceCaptureMetadata, options: UploadOptions = {}): Promise<FaceScanResponse> {
+    const media: FaceScanMedia = face instanceof Blob ? { image: face } : face;
+    const image = await this.prepareImage(media.image, 'face');
+    const fields: UploadField[] = [
+      { name: 'face_scan_img', value: image, fileName: (image as File)?.name || `face-${Date.now()}.jpg` },
+    ];
+    if (media.video) {
+      // Sent as recorded; re-encoding video in the browser isn't worth the time
+      const fileName = (media.video as File).name || `face-${Date.now()}.${videoSelfieExtension(media.video.type)}`;
+      fields.push({ name: FACE_VIDEO_FIELD, value: media.video, fileName });
+    }
+    if (metadata) {
+      fields.push({ name: 'metadata', value: JSON.stringify(metadata) });
+    }
+    return this.sendUpload<FaceScanResponse>('face', fields, options);
+  }
 
-    const deviceType = this.config.deviceType || this.detectDeviceType();
-    const formData = new FormData();
-    const faceFileName = (faceBlob as File)?.name || `face-${Date.now()}.jpg`;
-    formData.append('face_scan_img', faceBlob, faceFileName);
+  /**
+   * Upload document scan images. Pass a single blob for one-sided documents, or
+   * the images keyed by side to send every side in one request.
+   */
+  async uploadDocument(
+    doc: Blob | File | DocumentImages,
+    docType: string,
+    metadata?: DocumentCaptureMetadata,
+    options: UploadOptions = {}
+  ): Promise<DocumentUploadResponse> {
+    const images: DocumentImages = doc instanceof Blob ? { front: doc } : doc;
+    const sides = (Object.keys(DOCUMENT_SIDE_FIELDS) as DocumentSide[]).filter((side) => images[side]);
+    const fields: UploadField[] = [];
+    for (const side of sides) {
+      const blob = await this.prepareImage(images[side] as Blob | File, 'document');
+      const fileName = (blob as File)?.name || `document-${side}-${Date.now()}.jpg`;
+      fields.push({ name: DOCUMENT_SIDE_FIELDS[side], value: blob, fileName });
+    }
+    fields.push({ name: 'docType', value: docType });
+    fields.push({ name: 'sides', value: sides.join(',') });
+    if (metadata) {
+      fields.push({ name: 'metadata', value: JSON.stringify(metadata) });
+    }
+    return this.sendUpload<DocumentUploadResponse>('docs', fields, options);
+  }
 
+  /**
+   * Send an upload, waiting for the network and trying again while it is down.
+   * While the browser reports being online it gives up after a few failures.
+   * Every attempt carries the same idempotency key. The upload is queued in
+   * IndexedDB meanwhile so it survives a reload (see `resumeQueuedUploads`).
+   */
+  private async sendUpload<T>(endpoint: QueuedUpload['endpoint'], fields: UploadField[], options: UploadOptions): Promise<T> {
+    const upload: QueuedUpload = {
+      id: options.idempotencyKey ?? createIdempotencyKey(),
+      sessionId: this.config.sessionId,
+      endpoint,
+      fields,
+      queuedAt: Date.now(),
+    };
+    let queued = false;
+    let delay = UPLOAD_RETRY_DELAY_MS;
+    let onlineFailures = 0;
+    this.sending.add(upload.id);
     try {
-      const response = await fetch(
-        `${this.config.apiBaseUrl}/api/v2/dashboard/merchant/onsite/session/${this.config.sessionId}/face`,
-        {
-          method: 'POST',
-          headers: {
-            'x-server-key': this.config.serverKey,
-            'device-type': deviceType,
-          },
-          credentials: 'include',
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const message = errorData?.message || errorData?.errorData?.message || `Face upload failed with status ${response.status}`;
-        // Preserve the original error message for better error handling
-        const error = new Error(message);
-        (error as any).statusCode = response.status;
-        (error as any).errorData = errorData;
-        // Also preserve the full error response structure
-        if (errorData.statusCode) {
-          (error as any).statusCode = errorData.statusCode;
+      for (;;) {
+        try {
+          const data = await this.postUpload<T>(upload, options);
+          if (queued) await this.dequeue(upload);
+          return data;
+        } catch (error) {
+          if (typeof navigator === 'undefined' || navigator.onLine !== false) onlineFailures++;
+          if (!this.isQueueable(error) || options.signal?.aborted || onlineFailures >= UPLOAD_MAX_ONLINE_FAILURES) {
+            if (queued) await this.dequeue(upload);
+            throw options.signal?.aborted ? new KycAbortedError() : error;
+          }
+          if (!queued) {
+            queued = true;
+            await this.queue.put(upload).catch((queueError) => console.error('Could not queue upload:', queueError));
+          }
+          options.onQueued?.();
+          try {
+            await waitForConnectivity(delay, options.signal);
+          } catch (abortError) {
+            await this.dequeue(upload);
+            throw abortError;
+          }
+          delay = Math.min(delay * 2, UPLOAD_MAX_RETRY_DELAY_MS);
         }
-        throw error;
       }
-
-      const data = await response.json();
-      return data;
-    } catch (error: any) {
-      // If error already has a message from the response, preserve it
-      if (error.message && !error.message.includes('Face upload failed')) {
-        throw error;
-      }
-      const message = error?.message || 'Face upload failed';
-      throw new Error(`Face upload failed: ${message}`);
+    } finally {
+      this.sending.delete(upload.id);
     }
   }
 
   /**
-   * Upload document scan image
+   * One attempt at sending an upload
    */
-  async uploadDocument(docBlob: Blob | File, docType: string): Promise<DocumentUploadResponse> {
+  private async postUpload<T>(upload: QueuedUpload, options: UploadOptions = {}): Promise<T> {
+    if (options.signal?.aborted) throw new KycAbortedError();
+    // Known to be offline: skip the request and its retries
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) throw new KycNetworkError();
+
     // Check session status first
     await this.checkSessionActive();
 
-    const deviceType = this.config.deviceType || this.detectDeviceType();
-    const formData = new FormData();
-    const docFileName = (docBlob as File)?.name || `document-${Date.now()}.jpg`;
-    formData.append('docs_scan_img', docBlob, docFileName);
-    formData.append('docType', docType);
-
     try {
-      const response = await fetch(
-        `${this.config.apiBaseUrl}/api/v2/dashboard/merchant/onsite/session/${this.config.sessionId}/docs`,
-        {
-          method: 'POST',
-          headers: {
-            'x-server-key': this.config.serverKey,
-            'device-type': deviceType,
-          },
-          credentials: 'include',
-          body: formData,
-        }
-      );
+      // Not retried by the client: a resend after a lost response could be recorded twice
+      const response = await this.client.post<T>(upload.endpoint, toFormData(upload.fields), {
+        retries: 0,
+        headers: { 'Idempotency-Key': upload.id },
+        signal: options.signal,
+        // Always listen, so the timeout only runs while no bytes are moving
+        onUploadProgress: (progress) => options.onProgress?.(progress),
+      });
+      return response.data;
+    } catch (error) {
+      throw toKycError(error, upload.endpoint);
+    } finally {
+      // Even a failed attempt may have reached the server
+      this.invalidateSessionStatus();
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const message = errorData?.message || `Document upload failed with status ${response.status}`;
-        throw new Error(message);
-      }
+  /**
+   * Drop an upload from the offline queue. A storage failure is only logged, so
+   * it can't replace the upload's real outcome.
+   */
+  private async dequeue(upload: QueuedUpload): Promise<void> {
+    await this.queue.remove(upload).catch((queueError) => console.error('Could not remove queued upload:', queueError));
+  }
+
+  private isQueueable(error: unknown): boolean {
+    return (
+      this.config.offlineQueue !== false &&
+      (isKycError(error, KycErrorCode.NETWORK_ERROR) || isKycError(error, KycErrorCode.TIMEOUT))
+    );
+  }
 
-      const data = await response.json();
-      return data;
-    } catch (error: any) {
-      const message = error?.message || 'Document upload failed';
-      throw new Error(`Document upload failed: ${message}`);
+  /**
+   * Send uploads of this session left in the offline queue, e.g. by a page that
+   * was closed while offline. Uploads that still cannot be sent stay queued;
+   * ones the server rejects are dropped. Resolves to the number sent; each one
+   * is also reported to `onUploadResumed` listeners.
+   */
+  async resumeQueuedUploads(): Promise<number> {
+    if (this.config.offlineQueue === false) return 0;
+    let sent = 0;
+    for (const upload of await this.queue.list(this.config.sessionId)) {
+      if (this.sending.has(upload.id)) continue;
+      this.sending.add(upload.id);
+      try {
+        const response = await this.postUpload<FaceScanResponse | DocumentUploadResponse>(upload);
+        await this.dequeue(upload);
+        sent++;
+        for (const listener of [...this.resumeListeners]) {
+          try {
+            listener({ upload, response });
+          } catch (error) {
+            console.error('Resumed upload listener failed:', error);
+          }
+        }
+      } catch (error) {
+        if (!this.isQueueable(error)) {
+          console.error('Dropping queued upload the server rejected:', error);
+          await this.dequeue(upload);
+        }
+      } finally {
+        this.sending.delete(upload.id);
+      }
     }
+    return sent;
+  }
+
+  /**
+   * Resize, orient and compress an image, dropping its metadata
+   */
+  private async prepareImage(image: Blob | File, kind: keyof ImageProcessingConfig): Promise<Blob | File> {
+    const config = this.config.imageProcessing;
+    if (config === false) return image;
+    const defaults = kind === 'face' ? FACE_IMAGE_OPTIONS : DOCUMENT_IMAGE_OPTIONS;
+    return processImage(image, { ...defaults, ...config?.[kind] });
   }
 
   /**
    * Retry session - resets the session to allow face registration again
    */
-  async retrySession(): Promise<any> {
-    const deviceType = this.config.deviceType || this.detectDeviceType();
-    
+  async retrySession(): Promise<RetrySessionResponse> {
     try {
-      const response = await fetch(
-        `${this.config.apiBaseUrl}/api/v2/dashboard/merchant/onsite/session/${this.config.sessionId}/retry`,
-        {
-          method: 'POST',
-          headers: {
-            'x-server-key': this.config.serverKey,
-            'device-type': deviceType,
-            'Content-Type': 'application/json',
-          },
-          credentials: 'include',
-        }
-      );
+      const response = await this.client.post<RetrySessionResponse>('retry', undefined, { retries: 0 });
+      return response.data;
+    } catch (error) {
+      throw toKycError(error, 'retry');
+    } finally {
+      this.invalidateSessionStatus();
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const message = errorData?.message || `Retry failed with status ${response.status}`;
-        throw new Error(message);
-      }
+  /**
+   * Exchange the server key for a single-use, short-lived token the mobile
+   * device can redeem. Lets the QR code carry no merchant secret.
+   */
+  async createHandoffToken(): Promise<HandoffTokenResponse> {
+    try {
+      const response = await this.client.post<HandoffTokenResponse>('handoff');
+      return response.data;
+    } catch (error) {
+      throw toKycError(error, 'handoff');
+    }
+  }
 
-      const data = await response.json();
-      return data;
-    } catch (error: any) {
-      const message = error?.message || 'Retry failed';
-      throw new Error(`Retry failed: ${message}`);
+  /**
+   * Redeem a handoff token on the mobile device. On success this service
+   * authenticates with the returned access token from then on.
+   */
+  async redeemHandoffToken(token: string): Promise<HandoffRedeemResponse> {
+    try {
+      // Single-use token: a retry after a lost response would always be rejected
+      const response = await this.client.post<HandoffRedeemResponse>('handoff/redeem', { token }, { retries: 0 });
+      this.updateConfig({ accessToken: response.data.data.access_token });
+      return response.data;
+    } catch (error) {
+      throw toKycError(error, 'redeem');
     }
   }
 
   /**
-   * Check if session is active, throw error if not
+   * Check if session is active, throw SessionExpiredError or SessionCompletedError if not
    */
   async checkSessionActive(): Promise<void> {
     const status = await this.getSessionStatus();
     
+    if (status.data.status === 'COMPLETED') {
+      throw new SessionCompletedError(undefined, undefined, status.data);
+    }
     if (status.data.status !== 'ACTIVE') {
-      throw new Error('Session expired or inactive. Please start a new session.');
+      throw new SessionExpiredError(undefined, undefined, status.data);
     }
   }
 
@@ -235,6 +601,10 @@ export class KycApiService {
    */
   updateConfig(config: Partial<KycApiConfig>): void {
     this.config = { ...this.config, ...config };
+    this.client = this.createClient();
+    // The session or credentials may have changed
+    this.invalidateSessionStatus();
+    if (config.sessionId !== undefined) this.lastStatus = null;
   }
 
   /**
@@ -244,4 +614,3 @@ export class KycApiService {
     return { ...this.config };
   }
 }
-
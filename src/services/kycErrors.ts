@@ -0,0 +1,278 @@
+/**
+ * KYC error taxonomy
+ * Typed errors thrown by KycApiService so callers can branch on stable codes
+ */
+
+import { AstraSDKError } from '../sdk/types';
+import type { CameraErrorKind } from './cameraManager';
+
+export const KycErrorCode = {
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  SESSION_COMPLETED: 'SESSION_COMPLETED',
+  FACE_ALREADY_REGISTERED: 'FACE_ALREADY_REGISTERED',
+  LIVENESS_REJECTED: 'LIVENESS_REJECTED',
+  DOCUMENT_REJECTED: 'DOCUMENT_REJECTED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SERVER_ERROR: 'SERVER_ERROR',
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  INVALID_STEP: 'INVALID_STEP',
+  HANDOFF_TOKEN_INVALID: 'HANDOFF_TOKEN_INVALID',
+  UNSUPPORTED_FILE: 'UNSUPPORTED_FILE',
+  ABORTED: 'ABORTED',
+  DEVICE_INTEGRITY: 'DEVICE_INTEGRITY',
+  CAMERA_UNAVAILABLE: 'CAMERA_UNAVAILABLE',
+  LIVENESS_UNAVAILABLE: 'LIVENESS_UNAVAILABLE',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+} as const;
+
+export type KycErrorCode = (typeof KycErrorCode)[keyof typeof KycErrorCode];
+
+/**
+ * Base class for every error raised by the KYC flow
+ */
+export class KycError extends AstraSDKError {
+  declare code: KycErrorCode;
+
+  constructor(message: string, code: KycErrorCode, status?: number, details?: unknown) {
+    super(message, status, code, details);
+    this.name = 'KycError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Session is expired or no longer active and a new one must be started
+ */
+export class SessionExpiredError extends KycError {
+  constructor(message = 'Session expired or inactive. Please start a new session.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.SESSION_EXPIRED, status, details);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Session has already finished every step
+ */
+export class SessionCompletedError extends KycError {
+  constructor(message = 'KYC session is already completed.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.SESSION_COMPLETED, status, details);
+    this.name = 'SessionCompletedError';
+  }
+}
+
+/**
+ * A face is already registered for this session; `retrySession` resets it
+ */
+export class FaceAlreadyRegisteredError extends KycError {
+  constructor(message = 'Face already registered.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.FACE_ALREADY_REGISTERED, status, details);
+    this.name = 'FaceAlreadyRegisteredError';
+  }
+}
+
+/**
+ * Server refused the face capture (liveness or face quality checks failed)
+ */
+export class LivenessRejectedError extends KycError {
+  constructor(message = 'Face capture was rejected.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.LIVENESS_REJECTED, status, details);
+    this.name = 'LivenessRejectedError';
+  }
+}
+
+/**
+ * Server refused the document image or document type
+ */
+export class DocumentRejectedError extends KycError {
+  constructor(message = 'Document was rejected.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.DOCUMENT_REJECTED, status, details);
+    this.name = 'DocumentRejectedError';
+  }
+}
+
+/**
+ * Server key was missing or rejected
+ */
+export class UnauthorizedError extends KycError {
+  constructor(message = 'Unauthorized. Check the server key.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.UNAUTHORIZED, status, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Handoff token is unknown, expired or already redeemed; scan the QR code again
+ */
+export class HandoffTokenInvalidError extends KycError {
+  constructor(message = 'This link has expired or was already used. Scan the QR code again.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.HANDOFF_TOKEN_INVALID, status, details);
+    this.name = 'HandoffTokenInvalidError';
+  }
+}
+
+/**
+ * Selected file could not be read or prepared for upload, e.g. HEIC in a browser that cannot decode it
+ */
+export class UnsupportedFileError extends KycError {
+  constructor(message = 'This file could not be read. Please use a JPEG, PNG or PDF.', details?: unknown) {
+    super(message, KycErrorCode.UNSUPPORTED_FILE, undefined, details);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+export class RateLimitedError extends KycError {
+  constructor(message = 'Too many requests. Please wait and try again.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.RATE_LIMITED, status, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class KycServerError extends KycError {
+  constructor(message = 'Server error. Please try again.', status?: number, details?: unknown) {
+    super(message, KycErrorCode.SERVER_ERROR, status, details);
+    this.name = 'KycServerError';
+  }
+}
+
+export class KycNetworkError extends KycError {
+  constructor(message = 'Network error. Check your connection and try again.', details?: unknown) {
+    super(message, KycErrorCode.NETWORK_ERROR, undefined, details);
+    this.name = 'KycNetworkError';
+  }
+}
+
+export class KycTimeoutError extends KycError {
+  constructor(message = 'Request timed out. Please try again.', details?: unknown) {
+    super(message, KycErrorCode.TIMEOUT, 408, details);
+    this.name = 'KycTimeoutError';
+  }
+}
+
+/**
+ * Request was cancelled through its AbortSignal
+ */
+export class KycAbortedError extends KycError {
+  constructor(message = 'Upload cancelled.', details?: unknown) {
+    super(message, KycErrorCode.ABORTED, undefined, details);
+    this.name = 'KycAbortedError';
+  }
+}
+
+/**
+ * The camera looks like a virtual camera or an injected stream and the flow is set to block it.
+ * `details` carries the `DeviceIntegrityReport`.
+ */
+export class DeviceIntegrityError extends KycError {
+  constructor(message = "This camera can't be used for verification. Please use your device's built-in camera.", details?: unknown) {
+    super(message, KycErrorCode.DEVICE_INTEGRITY, undefined, details);
+    this.name = 'DeviceIntegrityError';
+  }
+}
+
+const CAMERA_ERROR_MESSAGES: Record<CameraErrorKind, string> = {
+  PERMISSION_DENIED: 'Camera access was denied. Allow camera access for this site and try again.',
+  NOT_FOUND: 'No camera was found on this device.',
+  IN_USE: 'The camera is being used by another app. Close it and try again.',
+  OVERCONSTRAINED: "This camera doesn't support the required settings. Try another camera.",
+  INSECURE_CONTEXT: 'Camera access is not available in this browser. Open the page in Safari or Chrome over https.',
+  UNKNOWN: 'The camera could not be started. Please try again.',
+};
+
+/**
+ * The camera could not be opened. `kind` says why, so the UI can show the matching recovery steps.
+ */
+export class CameraAccessError extends KycError {
+  kind: CameraErrorKind;
+
+  constructor(kind: CameraErrorKind, message = CAMERA_ERROR_MESSAGES[kind], details?: unknown) {
+    super(message, KycErrorCode.CAMERA_UNAVAILABLE, undefined, details);
+    this.name = 'CameraAccessError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * The liveness check could not run and the flow's liveness fallback is set to block.
+ * `details` carries the `LivenessFallbackReason`.
+ */
+export class LivenessUnavailableError extends KycError {
+  constructor(message = 'The liveness check is unavailable on this device. Please try again on another device or browser.', details?: unknown) {
+    super(message, KycErrorCode.LIVENESS_UNAVAILABLE, undefined, details);
+    this.name = 'LivenessUnavailableError';
+  }
+}
+
+/**
+ * Check whether an error is a KycError, optionally with a specific code
+ */
+export function isKycError(error: unknown, code?: KycErrorCode): error is KycError {
+  return error instanceof KycError && (code === undefined || error.code === code);
+}
+
+export type KycOperation = 'status' | 'face' | 'docs' | 'retry' | 'handoff' | 'redeem';
+
+interface ServerErrorBody {
+  message?: string;
+  statusCode?: number;
+  errorData?: { message?: string };
+}
+
+/**
+ * Map a transport failure for the given operation onto the KYC taxonomy.
+ * The server reports some conditions (e.g. face already registered) only
+ * through its message, so that matching lives here and nowhere else.
+ */
+export function toKycError(error: unknown, operation: KycOperation): KycError {
+  if (error instanceof KycError) {
+    return error;
+  }
+
+  if (!(error instanceof AstraSDKError)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new KycError(message || 'Unknown error occurred', KycErrorCode.UNKNOWN_ERROR, undefined, error);
+  }
+
+  if (error.code === 'ABORTED') {
+    return new KycAbortedError(undefined, error.details);
+  }
+  if (error.code === 'TIMEOUT') {
+    return new KycTimeoutError(undefined, error.details);
+  }
+  if (error.code === 'NETWORK_ERROR') {
+    return new KycNetworkError(undefined, error.details);
+  }
+
+  const body = (error.details && typeof error.details === 'object' ? error.details : {}) as ServerErrorBody;
+  const message = body.message || body.errorData?.message || error.message;
+  const status = body.statusCode ?? error.status;
+
+  if (operation === 'redeem' && status !== undefined && status >= 400 && status < 500 && status !== 429) {
+    return new HandoffTokenInvalidError(undefined, status, error.details);
+  }
+  if (/already registered/i.test(message)) {
+    return new FaceAlreadyRegisteredError(message, status, error.details);
+  }
+  if (status === 401 || status === 403) {
+    return new UnauthorizedError(message, status, error.details);
+  }
+  if (status === 410 || /expired|inactive/i.test(message)) {
+    return new SessionExpiredError(message, status, error.details);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, status, error.details);
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    if (operation === 'face') {
+      return new LivenessRejectedError(message, status, error.details);
+    }
+    if (operation === 'docs') {
+      return new DocumentRejectedError(message, status, error.details);
+    }
+  }
+  if (status !== undefined && status >= 500) {
+    return new KycServerError(message, status, error.details);
+  }
+  return new KycError(message, KycErrorCode.UNKNOWN_ERROR, status, error.details);
+}
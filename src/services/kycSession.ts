@@ -0,0 +1,254 @@
+/**
+ * KYC Session
+ * Framework-agnostic controller for the KYC step sequence, usable without the bundled React UI
+ */
+
+import { COMPLETED_STEPS } from './kycApiService';
+import type {
+  KycApiService,
+  SessionStatusResponse,
+  FaceScanResponse,
+  DocumentUploadResponse,
+  DocumentImages,
+  DocumentCaptureMetadata,
+  FaceCaptureMetadata,
+  FaceScanMedia,
+  UploadOptions,
+} from './kycApiService';
+import { KycError, KycErrorCode, SessionCompletedError, SessionExpiredError, toKycError } from './kycErrors';
+
+export type KycStep = (typeof COMPLETED_STEPS)[keyof typeof COMPLETED_STEPS];
+
+export type KycSessionStatus = SessionStatusResponse['data']['status'];
+
+export interface KycSessionState {
+  step: KycStep;
+  status: KycSessionStatus | null;
+  completedSteps: string[];
+  nextStep: string | null;
+  loading: boolean;
+  error: KycError | null;
+}
+
+export type KycSessionListener = (state: KycSessionState, previous: KycSessionState) => void;
+
+/**
+ * Return false (or resolve to false) to veto a step transition
+ */
+export type KycStepGuard = (from: KycStep, to: KycStep, state: KycSessionState) => boolean | Promise<boolean>;
+
+export interface KycSessionOptions {
+  guards?: KycStepGuard[];
+}
+
+const STEP_ORDER: KycStep[] = [
+  COMPLETED_STEPS.INITIATED,
+  COMPLETED_STEPS.FACE,
+  COMPLETED_STEPS.DOCS,
+  COMPLETED_STEPS.COMPLETED,
+];
+
+/**
+ * Resolve which step the user should be on from a server status payload
+ */
+export function resolveKycStep(data: SessionStatusResponse['data']): KycStep {
+  const { status, completed_steps, next_step } = data;
+
+  if (
+    status === 'COMPLETED' ||
+    next_step === COMPLETED_STEPS.COMPLETED ||
+    completed_steps.includes(COMPLETED_STEPS.COMPLETED) ||
+    (completed_steps.includes(COMPLETED_STEPS.FACE) && completed_steps.includes(COMPLETED_STEPS.DOCS))
+  ) {
+    return COMPLETED_STEPS.COMPLETED;
+  }
+
+  if (completed_steps.includes(COMPLETED_STEPS.FACE) || next_step === COMPLETED_STEPS.DOCS) {
+    return COMPLETED_STEPS.DOCS;
+  }
+
+  return COMPLETED_STEPS.FACE;
+}
+
+export class KycSession {
+  private apiService: KycApiService;
+  private state: KycSessionState;
+  private listeners = new Set<KycSessionListener>();
+  private guards: KycStepGuard[];
+
+  constructor(apiService: KycApiService, options: KycSessionOptions = {}) {
+    this.apiService = apiService;
+    this.guards = [...(options.guards ?? [])];
+    this.state = {
+      step: COMPLETED_STEPS.INITIATED,
+      status: null,
+      completedSteps: [],
+      nextStep: null,
+      loading: false,
+      error: null,
+    };
+  }
+
+  /**
+   * Get a snapshot of the current state
+   */
+  getState(): KycSessionState {
+    return { ...this.state, completedSteps: [...this.state.completedSteps] };
+  }
+
+  get step(): KycStep {
+    return this.state.step;
+  }
+
+  isCompleted(): boolean {
+    return this.state.step === COMPLETED_STEPS.COMPLETED;
+  }
+
+  /**
+   * Listen for state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: KycSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: KycSessionListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Register a transition guard. Returns a function that removes it.
+   */
+  addGuard(guard: KycStepGuard): () => void {
+    this.guards.push(guard);
+    return () => {
+      this.guards = this.guards.filter((g) => g !== guard);
+    };
+  }
+
+  /**
+   * Steps only move forward, one at a time
+   */
+  canTransition(to: KycStep): boolean {
+    return STEP_ORDER.indexOf(to) === STEP_ORDER.indexOf(this.state.step) + 1;
+  }
+
+  /**
+   * Move to the next step, running guards first. Resolves to false if vetoed.
+   */
+  async transition(to: KycStep): Promise<boolean> {
+    if (!this.canTransition(to)) {
+      return false;
+    }
+    const from = this.state.step;
+    for (const guard of this.guards) {
+      if (!(await guard(from, to, this.getState()))) {
+        return false;
+      }
+    }
+    this.setState({ step: to });
+    return true;
+  }
+
+  /**
+   * Fetch the server status and advance to the step it reports
+   */
+  async refresh(): Promise<KycSessionState> {
+    this.setState({ loading: true, error: null });
+    try {
+      const response = await this.apiService.getSessionStatus({ force: true });
+      const { data } = response;
+      this.setState({
+        status: data.status,
+        completedSteps: data.completed_steps,
+        nextStep: data.next_step,
+      });
+
+      const target = resolveKycStep(data);
+      if (target !== COMPLETED_STEPS.COMPLETED && data.status !== 'ACTIVE') {
+        throw new SessionExpiredError(undefined, undefined, data);
+      }
+      await this.advanceTo(target);
+      this.setState({ loading: false });
+    } catch (error) {
+      this.setState({ loading: false, error: toKycError(error, 'status') });
+    }
+    return this.getState();
+  }
+
+  /**
+   * Upload the face capture and move on when the server accepts it
+   */
+  async submitFace(face: Blob | File | FaceScanMedia, metadata?: FaceCaptureMetadata, options?: UploadOptions): Promise<FaceScanResponse> {
+    this.assertStep(COMPLETED_STEPS.FACE);
+    return this.runStep(() => this.apiService.uploadFaceScan(face, metadata, options), 'face');
+  }
+
+  /**
+   * Upload the document (a single image or one per side) and move on when the server accepts it
+   */
+  async submitDocument(
+    doc: Blob | File | DocumentImages,
+    docType: string,
+    metadata?: DocumentCaptureMetadata,
+    options?: UploadOptions
+  ): Promise<DocumentUploadResponse> {
+    this.assertStep(COMPLETED_STEPS.DOCS);
+    return this.runStep(() => this.apiService.uploadDocument(doc, docType, metadata, options), 'docs');
+  }
+
+  /**
+   * Reset the server session (e.g. after FACE_ALREADY_REGISTERED) and resync
+   */
+  async retry(): Promise<KycSessionState> {
+    this.setState({ loading: true, error: null });
+    try {
+      await this.apiService.retrySession();
+      this.setState({ step: COMPLETED_STEPS.INITIATED });
+    } catch (error) {
+      this.setState({ loading: false, error: toKycError(error, 'retry') });
+      return this.getState();
+    }
+    return this.refresh();
+  }
+
+  private async runStep<T>(upload: () => Promise<T>, operation: 'face' | 'docs'): Promise<T> {
+    this.setState({ loading: true, error: null });
+    try {
+      const result = await upload();
+      await this.refresh();
+      return result;
+    } catch (error) {
+      const kycError = toKycError(error, operation);
+      this.setState({ loading: false, error: kycError });
+      throw kycError;
+    }
+  }
+
+  private async advanceTo(target: KycStep): Promise<void> {
+    while (STEP_ORDER.indexOf(this.state.step) < STEP_ORDER.indexOf(target)) {
+      const next = STEP_ORDER[STEP_ORDER.indexOf(this.state.step) + 1];
+      if (!(await this.transition(next))) {
+        return;
+      }
+    }
+  }
+
+  private assertStep(step: KycStep): void {
+    if (this.state.step === COMPLETED_STEPS.COMPLETED) {
+      throw new SessionCompletedError();
+    }
+    if (this.state.step !== step) {
+      throw new KycError(
+        `Cannot submit ${step} while session is at ${this.state.step}`,
+        KycErrorCode.INVALID_STEP
+      );
+    }
+  }
+
+  private setState(partial: Partial<KycSessionState>): void {
+    const previous = this.state;
+    this.state = { ...previous, ...partial };
+    this.listeners.forEach((listener) => listener(this.getState(), previous));
+  }
+}
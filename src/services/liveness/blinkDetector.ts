@@ -0,0 +1,129 @@
+/**
+ * Blink detection from the eye aspect ratio (EAR) over time
+ */
+
+import { eyeAspectRatio, LEFT_EYE_CONTOUR, RIGHT_EYE_CONTOUR } from './geometry';
+import type { LivenessFrame } from './types';
+
+export interface BlinkDetectorOptions {
+  /** Open-eye frames sampled to learn the user's baseline EAR. Defaults to 15. */
+  calibrationFrames?: number;
+  /** Eyes count as closed below this fraction of the baseline. Defaults to 0.7. */
+  closeRatio?: number;
+  /** Eyes count as open again above this fraction of the baseline. Defaults to 0.85. */
+  openRatio?: number;
+  /** Closures longer than this are not blinks (eyes held shut). Defaults to 500ms. */
+  maxBlinkMs?: number;
+  /** Frames turned further than this are ignored, EAR is unreliable there. Defaults to 0.15. */
+  maxYaw?: number;
+}
+
+/**
+ * Blink summary recorded with the capture
+ */
+export interface BlinkSignal {
+  blinkCount: number;
+  calibrated: boolean;
+  /** Learned open-eye EAR, null until calibrated */
+  baselineEar: number | null;
+  /** Lowest EAR seen since the last reset */
+  minEar: number | null;
+  /** Duration of each detected blink in ms */
+  blinkDurations: number[];
+  lastBlinkAt: number | null;
+}
+
+export class BlinkDetector {
+  private calibrationFrames: number;
+  private closeRatio: number;
+  private openRatio: number;
+  private maxBlinkMs: number;
+  private maxYaw: number;
+  private samples: number[] = [];
+  private baseline: number | null = null;
+  private closedAt: number | null = null;
+  private minEar: number | null = null;
+  private blinkDurations: number[] = [];
+  private lastBlinkAt: number | null = null;
+
+  constructor(options: BlinkDetectorOptions = {}) {
+    this.calibrationFrames = options.calibrationFrames ?? 15;
+    this.closeRatio = options.closeRatio ?? 0.7;
+    this.openRatio = options.openRatio ?? 0.85;
+    this.maxBlinkMs = options.maxBlinkMs ?? 500;
+    this.maxYaw = options.maxYaw ?? 0.15;
+  }
+
+  get calibrated(): boolean {
+    return this.baseline !== null;
+  }
+
+  get blinkCount(): number {
+    return this.blinkDurations.length;
+  }
+
+  get signal(): BlinkSignal {
+    return {
+      blinkCount: this.blinkCount,
+      calibrated: this.calibrated,
+      baselineEar: this.baseline,
+      minEar: this.minEar,
+      blinkDurations: [...this.blinkDurations],
+      lastBlinkAt: this.lastBlinkAt,
+    };
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.baseline = null;
+    this.closedAt = null;
+    this.minEar = null;
+    this.blinkDurations = [];
+    this.lastBlinkAt = null;
+  }
+
+  /**
+   * Feed one frame. Returns true on the frame where a blink completes.
+   */
+  update(frame: LivenessFrame): boolean {
+    if (Math.abs(frame.yaw) > this.maxYaw) return false;
+
+    const left = eyeAspectRatio(frame.landmarks, LEFT_EYE_CONTOUR);
+    const right = eyeAspectRatio(frame.landmarks, RIGHT_EYE_CONTOUR);
+    if (left === null || right === null) return false;
+    const ear = (left + right) / 2;
+    this.minEar = this.minEar === null ? ear : Math.min(this.minEar, ear);
+
+    if (this.baseline === null) {
+      this.samples.push(ear);
+      if (this.samples.length >= this.calibrationFrames) {
+        // Median, so a blink during calibration doesn't drag the baseline down
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        this.baseline = sorted[Math.floor(sorted.length / 2)];
+        this.samples = [];
+      }
+      return false;
+    }
+
+    if (this.closedAt === null) {
+      if (ear < this.baseline * this.closeRatio) {
+        this.closedAt = frame.timestamp;
+      } else if (ear > this.baseline * this.openRatio) {
+        // Follow slow drift (distance, lighting) while the eyes are open
+        this.baseline = this.baseline * 0.95 + ear * 0.05;
+      }
+      return false;
+    }
+
+    if (ear > this.baseline * this.openRatio) {
+      const duration = frame.timestamp - this.closedAt;
+      this.closedAt = null;
+      if (duration <= this.maxBlinkMs) {
+        this.blinkDurations.push(duration);
+        this.lastBlinkAt = frame.timestamp;
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,38 @@
+import { BlinkDetector, type BlinkDetectorOptions } from '../blinkDetector';
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface BlinkOptions extends BlinkDetectorOptions {
+  /** Blinks required to pass. Defaults to 1. */
+  blinks?: number;
+}
+
+/**
+ * Close and reopen both eyes. Calibrates on the user's open eyes first.
+ */
+export class BlinkChallenge implements LivenessChallenge {
+  readonly id = 'BLINK';
+  readonly label = 'Blink';
+  readonly instruction = 'Blink your eyes';
+  private detector: BlinkDetector;
+  private blinks: number;
+
+  constructor(options: BlinkOptions = {}) {
+    this.detector = new BlinkDetector({ calibrationFrames: 10, ...options });
+    this.blinks = options.blinks ?? 1;
+  }
+
+  reset(): void {
+    this.detector.reset();
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    this.detector.update(frame);
+    if (!this.detector.calibrated) {
+      return { status: 'pending', hint: 'Look at the camera with your eyes open' };
+    }
+    if (this.detector.blinkCount >= this.blinks) {
+      return { status: 'passed' };
+    }
+    return { status: 'pending' };
+  }
+}
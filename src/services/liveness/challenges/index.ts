@@ -0,0 +1,12 @@
+export { TurnHeadChallenge } from './turnHead';
+export type { TurnHeadOptions } from './turnHead';
+export { NodHeadChallenge } from './nodHead';
+export type { NodHeadOptions } from './nodHead';
+export { BlinkChallenge } from './blink';
+export type { BlinkOptions } from './blink';
+export { SmileChallenge } from './smile';
+export type { SmileOptions } from './smile';
+export { OpenMouthChallenge } from './openMouth';
+export type { OpenMouthOptions } from './openMouth';
+export { MoveCloserChallenge } from './moveCloser';
+export type { MoveCloserOptions } from './moveCloser';
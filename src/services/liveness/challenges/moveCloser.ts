@@ -0,0 +1,43 @@
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface MoveCloserOptions {
+  /** Required growth of the face box relative to the start of the challenge */
+  gain?: number;
+  holdFrames?: number;
+}
+
+/**
+ * Move the face towards the camera: its box must grow relative to the start of the challenge
+ */
+export class MoveCloserChallenge implements LivenessChallenge {
+  readonly id = 'MOVE_CLOSER';
+  readonly label = 'Move closer';
+  readonly instruction = 'Move your face closer to the camera';
+  private gain: number;
+  private holdFrames: number;
+  private baseline: number | null = null;
+  private hold = 0;
+
+  constructor(options: MoveCloserOptions = {}) {
+    this.gain = options.gain ?? 1.2;
+    this.holdFrames = options.holdFrames ?? 6;
+  }
+
+  reset(frame?: LivenessFrame): void {
+    this.baseline = frame ? frame.box.maxX - frame.box.minX : null;
+    this.hold = 0;
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    const width = frame.box.maxX - frame.box.minX;
+    if (this.baseline === null) {
+      this.baseline = width;
+    }
+    if (width >= this.baseline * this.gain) {
+      this.hold += 1;
+      return this.hold >= this.holdFrames ? { status: 'passed' } : { status: 'pending' };
+    }
+    this.hold = 0;
+    return { status: 'pending', hint: 'A little closer' };
+  }
+}
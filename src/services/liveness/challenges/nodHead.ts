@@ -0,0 +1,54 @@
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface NodHeadOptions {
+  /** Required change of the estimated head pitch in degrees */
+  threshold?: number;
+  holdFrames?: number;
+}
+
+/**
+ * Tilt the head up or down relative to the pose at the start of the challenge
+ */
+export class NodHeadChallenge implements LivenessChallenge {
+  readonly id: string;
+  readonly label: string;
+  readonly instruction: string;
+  private direction: 'UP' | 'DOWN';
+  private threshold: number;
+  private holdFrames: number;
+  private baseline: number | null = null;
+  private hold = 0;
+
+  constructor(direction: 'UP' | 'DOWN', options: NodHeadOptions = {}) {
+    this.direction = direction;
+    this.id = `NOD_${direction}`;
+    this.label = `Tilt your head ${direction.toLowerCase()}`;
+    this.instruction = `Tilt your head ${direction}`;
+    this.threshold = options.threshold ?? 15;
+    this.holdFrames = options.holdFrames ?? 8;
+  }
+
+  reset(frame?: LivenessFrame): void {
+    this.baseline = frame?.pose ? frame.pose.pitch : null;
+    this.hold = 0;
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    if (!frame.pose) {
+      this.hold = 0;
+      return { status: 'pending', hint: 'Keep your whole face in view' };
+    }
+    if (this.baseline === null) {
+      this.baseline = frame.pose.pitch;
+    }
+    // Same estimate as the centering and capture gates: pitch is positive when looking up
+    const delta = frame.pose.pitch - this.baseline;
+    const tilted = this.direction === 'UP' ? delta > this.threshold : delta < -this.threshold;
+    if (tilted) {
+      this.hold += 1;
+      return this.hold >= this.holdFrames ? { status: 'passed' } : { status: 'pending' };
+    }
+    this.hold = 0;
+    return { status: 'pending', hint: `Tilt your head a bit more ${this.direction}` };
+  }
+}
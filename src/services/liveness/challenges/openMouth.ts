@@ -0,0 +1,41 @@
+import { mouthOpenRatio } from '../geometry';
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface OpenMouthOptions {
+  threshold?: number;
+  holdFrames?: number;
+}
+
+/**
+ * Open the mouth wide
+ */
+export class OpenMouthChallenge implements LivenessChallenge {
+  readonly id = 'OPEN_MOUTH';
+  readonly label = 'Open your mouth';
+  readonly instruction = 'Open your mouth';
+  private threshold: number;
+  private holdFrames: number;
+  private hold = 0;
+
+  constructor(options: OpenMouthOptions = {}) {
+    this.threshold = options.threshold ?? 0.35;
+    this.holdFrames = options.holdFrames ?? 6;
+  }
+
+  reset(): void {
+    this.hold = 0;
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    const ratio = mouthOpenRatio(frame.landmarks);
+    if (ratio === null) {
+      return { status: 'pending', hint: 'Keep your mouth visible to the camera' };
+    }
+    if (ratio >= this.threshold) {
+      this.hold += 1;
+      return this.hold >= this.holdFrames ? { status: 'passed' } : { status: 'pending' };
+    }
+    this.hold = 0;
+    return { status: 'pending', hint: 'Open your mouth wider' };
+  }
+}
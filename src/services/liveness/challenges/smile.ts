@@ -0,0 +1,47 @@
+import { mouthWidthRatio } from '../geometry';
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface SmileOptions {
+  /** Required mouth widening relative to the neutral mouth */
+  gain?: number;
+  holdFrames?: number;
+}
+
+/**
+ * Smile: the mouth must widen relative to its width at the start of the challenge
+ */
+export class SmileChallenge implements LivenessChallenge {
+  readonly id = 'SMILE';
+  readonly label = 'Smile';
+  readonly instruction = 'Smile!';
+  private gain: number;
+  private holdFrames: number;
+  private baseline: number | null = null;
+  private hold = 0;
+
+  constructor(options: SmileOptions = {}) {
+    this.gain = options.gain ?? 1.12;
+    this.holdFrames = options.holdFrames ?? 6;
+  }
+
+  reset(frame?: LivenessFrame): void {
+    this.baseline = frame ? mouthWidthRatio(frame.landmarks) : null;
+    this.hold = 0;
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    const ratio = mouthWidthRatio(frame.landmarks);
+    if (ratio === null) {
+      return { status: 'pending', hint: 'Keep your mouth visible to the camera' };
+    }
+    if (this.baseline === null) {
+      this.baseline = ratio;
+    }
+    if (ratio >= this.baseline * this.gain) {
+      this.hold += 1;
+      return this.hold >= this.holdFrames ? { status: 'passed' } : { status: 'pending' };
+    }
+    this.hold = 0;
+    return { status: 'pending', hint: 'Give us a big smile' };
+  }
+}
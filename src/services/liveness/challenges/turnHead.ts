@@ -0,0 +1,55 @@
+import type { ChallengeResult, LivenessChallenge, LivenessFrame } from '../types';
+
+export interface TurnHeadOptions {
+  threshold?: number;
+  holdFrames?: number;
+  minFaceWidth?: number;
+}
+
+/**
+ * Turn the head to one side and hold it there
+ */
+export class TurnHeadChallenge implements LivenessChallenge {
+  readonly id: string;
+  readonly label: string;
+  readonly instruction: string;
+  private direction: 'LEFT' | 'RIGHT';
+  private threshold: number;
+  private holdFrames: number;
+  private minFaceWidth: number;
+  private hold = 0;
+
+  constructor(direction: 'LEFT' | 'RIGHT', options: TurnHeadOptions = {}) {
+    this.direction = direction;
+    this.id = `TURN_${direction}`;
+    this.label = `Turn your face ${direction.toLowerCase()}`;
+    this.instruction = `Turn your face ${direction}`;
+    this.threshold = options.threshold ?? 0.08;
+    this.holdFrames = options.holdFrames ?? 12;
+    this.minFaceWidth = options.minFaceWidth ?? 0.08;
+  }
+
+  reset(): void {
+    this.hold = 0;
+  }
+
+  evaluate(frame: LivenessFrame): ChallengeResult {
+    if (frame.faceWidth < this.minFaceWidth) {
+      return { status: 'pending', hint: 'Move closer to the camera' };
+    }
+
+    const turned = this.direction === 'LEFT' ? frame.yaw < -this.threshold : frame.yaw > this.threshold;
+    if (turned) {
+      this.hold += 1;
+      return this.hold >= this.holdFrames ? { status: 'passed' } : { status: 'pending' };
+    }
+
+    this.hold = 0;
+    const opposite = this.direction === 'LEFT' ? frame.yaw > this.threshold : frame.yaw < -this.threshold;
+    const other = this.direction === 'LEFT' ? 'right' : 'left';
+    return {
+      status: 'pending',
+      hint: opposite ? `You're facing ${other}. Turn ${this.direction}` : `Turn a bit more ${this.direction}`,
+    };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Liveness challenge engine
+ * Runs an align → challenges → capture sequence over FaceMesh frames
+ */
+
+import {
+  BlinkChallenge,
+  MoveCloserChallenge,
+  NodHeadChallenge,
+  OpenMouthChallenge,
+  SmileChallenge,
+  TurnHeadChallenge,
+} from './challenges';
+import { createRandom, mouthOpenRatio } from './geometry';
+import { CAPTURE_POSE_TOLERANCE, CENTER_POSE_TOLERANCE, headPoseGuidance, type HeadPoseTolerance } from './headPose';
+import type { LivenessChallenge, LivenessChallengeFactory, LivenessFrame, LivenessStage } from './types';
+
+export const CENTER_STAGE: LivenessStage = {
+  id: 'CENTER',
+  label: 'Look straight',
+  instruction: 'Look straight at the camera',
+};
+
+export const DONE_STAGE: LivenessStage = {
+  id: 'DONE',
+  label: 'Look straight to capture',
+  instruction: 'Great! Now look straight at the camera',
+};
+
+// Frames the face must rest before a challenge takes its baseline, and the lip gap that still counts as closed
+const NEUTRAL_HOLD_FRAMES = 3;
+const NEUTRAL_MOUTH_OPEN = 0.15;
+
+const challengeRegistry = new Map<string, LivenessChallengeFactory>([
+  ['TURN_LEFT', () => new TurnHeadChallenge('LEFT')],
+  ['TURN_RIGHT', () => new TurnHeadChallenge('RIGHT')],
+  ['NOD_UP', () => new NodHeadChallenge('UP')],
+  ['NOD_DOWN', () => new NodHeadChallenge('DOWN')],
+  ['BLINK', () => new BlinkChallenge()],
+  ['SMILE', () => new SmileChallenge()],
+  ['OPEN_MOUTH', () => new OpenMouthChallenge()],
+  ['MOVE_CLOSER', () => new MoveCloserChallenge()],
+]);
+
+/**
+ * Add or replace a challenge so it can be referenced by id in a sequence
+ */
+export function registerLivenessChallenge(id: string, factory: LivenessChallengeFactory): void {
+  challengeRegistry.set(id, factory);
+}
+
+export function getLivenessChallengeIds(): string[] {
+  return [...challengeRegistry.keys()];
+}
+
+export function createLivenessChallenge(id: string): LivenessChallenge {
+  const factory = challengeRegistry.get(id);
+  if (!factory) {
+    throw new Error(`Unknown liveness challenge: ${id}`);
+  }
+  return factory();
+}
+
+export interface LivenessSequenceOptions {
+  /** Explicit challenge ids, e.g. provided by the server. Used as-is when set. */
+  challenges?: string[];
+  /** Seed for the random draw; a fresh random seed is used when omitted */
+  seed?: string | number;
+  /** How many challenges to draw. Defaults to 3. */
+  count?: number;
+  /** Ids to draw from. Defaults to every registered challenge. */
+  pool?: string[];
+}
+
+/**
+ * Build a challenge sequence: the explicit list if given, otherwise a seeded
+ * random draw without repeats. Ids this SDK doesn't know are skipped, and a
+ * list with none it knows falls back to the random draw.
+ */
+export function createLivenessSequence(options: LivenessSequenceOptions = {}): LivenessChallenge[] {
+  if (options.challenges && options.challenges.length > 0) {
+    const known = options.challenges.filter((id) => challengeRegistry.has(id));
+    if (known.length < options.challenges.length) {
+      const unknown = options.challenges.filter((id) => !challengeRegistry.has(id));
+      console.warn(`Skipping unknown liveness challenges: ${unknown.join(', ')}`);
+    }
+    if (known.length > 0) {
+      return known.map(createLivenessChallenge);
+    }
+  }
+
+  const pool = (options.pool ?? getLivenessChallengeIds()).filter((id) => challengeRegistry.has(id));
+  const random = createRandom(options.seed ?? `${Date.now()}-${Math.random()}`);
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, Math.max(1, options.count ?? 3)).map(createLivenessChallenge);
+}
+
+export interface LivenessEngineOptions extends LivenessSequenceOptions {
+  centerThreshold?: number;
+  captureThreshold?: number;
+  holdFramesCenter?: number;
+  /** Pose required to start the challenges */
+  centerPoseTolerance?: HeadPoseTolerance;
+  /** Pose required for the final capture */
+  capturePoseTolerance?: HeadPoseTolerance;
+}
+
+export interface LivenessEngineUpdate {
+  stage: LivenessStage;
+  instruction: string;
+  /** True on the single frame where the capture should fire */
+  captureTriggered: boolean;
+}
+
+export class LivenessChallengeEngine {
+  private challenges: LivenessChallenge[];
+  private index = -1;
+  private centerHold = 0;
+  // False until the face is back at rest after the previous stage; the current challenge waits for it
+  private armed = false;
+  private neutralHold = 0;
+  private snapTriggered = false;
+  private retryHint: string | null = null;
+  private retryCooldown = 0;
+  private centerThreshold: number;
+  private captureThreshold: number;
+  private holdFramesCenter: number;
+  private centerPoseTolerance: HeadPoseTolerance;
+  readonly capturePoseTolerance: HeadPoseTolerance;
+
+  constructor(options: LivenessEngineOptions = {}) {
+    this.challenges = createLivenessSequence(options);
+    this.centerThreshold = options.centerThreshold ?? 0.05;
+    this.captureThreshold = options.captureThreshold ?? 0.08;
+    this.holdFramesCenter = options.holdFramesCenter ?? 12;
+    this.centerPoseTolerance = options.centerPoseTolerance ?? CENTER_POSE_TOLERANCE;
+    this.capturePoseTolerance = options.capturePoseTolerance ?? CAPTURE_POSE_TOLERANCE;
+  }
+
+  /**
+   * Every stage in order, including the align and capture stages
+   */
+  get sequence(): LivenessStage[] {
+    return [CENTER_STAGE, ...this.challenges.map(toDescriptor), DONE_STAGE];
+  }
+
+  get challengeIds(): string[] {
+    return this.challenges.map((challenge) => challenge.id);
+  }
+
+  get stage(): LivenessStage {
+    if (this.index < 0) return CENTER_STAGE;
+    if (this.index >= this.challenges.length) return DONE_STAGE;
+    return toDescriptor(this.challenges[this.index]);
+  }
+
+  get completed(): boolean {
+    return this.index >= this.challenges.length;
+  }
+
+  /**
+   * Replace the challenge sequence. Only allowed before the first challenge starts.
+   */
+  configure(options: LivenessSequenceOptions): boolean {
+    if (this.index >= 0) return false;
+    this.challenges = createLivenessSequence(options);
+    return true;
+  }
+
+  /**
+   * Re-arm the capture after it was refused (e.g. by the quality gate). The
+   * reason stays on screen and the next attempt waits for the cooldown.
+   */
+  rejectCapture(hint: string, cooldownFrames = 30): void {
+    this.snapTriggered = false;
+    this.centerHold = 0;
+    this.retryHint = hint;
+    this.retryCooldown = cooldownFrames;
+  }
+
+  reset(): void {
+    this.index = -1;
+    this.centerHold = 0;
+    this.armed = false;
+    this.neutralHold = 0;
+    this.snapTriggered = false;
+    this.retryHint = null;
+    this.retryCooldown = 0;
+    this.challenges.forEach((challenge) => challenge.reset());
+  }
+
+  process(frame: LivenessFrame): LivenessEngineUpdate {
+    if (this.index < 0) {
+      return this.processCenter(frame);
+    }
+    if (this.completed) {
+      return this.processCapture(frame);
+    }
+
+    const challenge = this.challenges[this.index];
+    if (!this.armed) {
+      return this.arm(challenge, frame);
+    }
+    const result = challenge.evaluate(frame);
+    if (result.status === 'passed') {
+      return this.advance();
+    }
+    return this.update(result.hint ?? challenge.instruction);
+  }
+
+  private processCenter(frame: LivenessFrame): LivenessEngineUpdate {
+    if (!frame.insideGuide) {
+      return this.update('Center your face inside the circle');
+    }
+    const poseGuidance = frame.pose && headPoseGuidance(frame.pose, this.centerPoseTolerance);
+    if (Math.abs(frame.yaw) < this.centerThreshold && !poseGuidance) {
+      this.centerHold += 1;
+      if (this.centerHold >= this.holdFramesCenter) {
+        return this.advance();
+      }
+      return this.update(CENTER_STAGE.instruction);
+    }
+    this.centerHold = 0;
+    if (Math.abs(frame.yaw) < this.centerThreshold && poseGuidance) {
+      return this.update(poseGuidance);
+    }
+    return this.update(frame.yaw > 0 ? 'Move your face slightly LEFT' : 'Move your face slightly RIGHT');
+  }
+
+  private processCapture(frame: LivenessFrame): LivenessEngineUpdate {
+    if (this.retryCooldown > 0) {
+      this.retryCooldown -= 1;
+      return this.update(this.retryHint ?? DONE_STAGE.instruction);
+    }
+    // Wait for the face to be straight before capturing (no center check needed)
+    const poseGuidance = frame.pose && headPoseGuidance(frame.pose, this.capturePoseTolerance);
+    if (Math.abs(frame.yaw) < this.captureThreshold && !poseGuidance) {
+      this.centerHold += 1;
+      if (this.centerHold >= this.holdFramesCenter && !this.snapTriggered) {
+        this.snapTriggered = true;
+        this.retryHint = null;
+        return { stage: DONE_STAGE, instruction: 'Capturing...', captureTriggered: true };
+      }
+      return this.update(this.snapTriggered ? 'Capturing...' : this.retryHint ?? DONE_STAGE.instruction);
+    }
+    this.centerHold = 0;
+    return this.update(poseGuidance || 'Please look straight at the camera');
+  }
+
+  private advance(): LivenessEngineUpdate {
+    this.index += 1;
+    this.centerHold = 0;
+    this.armed = false;
+    this.neutralHold = 0;
+    const stage = this.stage;
+    return { stage, instruction: stage.instruction, captureTriggered: false };
+  }
+
+  /**
+   * Start `challenge` once the face is back at rest, with that frame as its
+   * baseline. Otherwise undoing the previous challenge (closing an open mouth,
+   * turning back to the front) could pass a challenge measured against it.
+   */
+  private arm(challenge: LivenessChallenge, frame: LivenessFrame): LivenessEngineUpdate {
+    const guidance = this.neutralGuidance(frame);
+    if (guidance) {
+      this.neutralHold = 0;
+      return this.update(guidance);
+    }
+    this.neutralHold += 1;
+    if (this.neutralHold >= NEUTRAL_HOLD_FRAMES) {
+      this.armed = true;
+      challenge.reset(frame);
+    }
+    return this.update(challenge.instruction);
+  }
+
+  private neutralGuidance(frame: LivenessFrame): string | null {
+    const poseGuidance = frame.pose && headPoseGuidance(frame.pose, this.capturePoseTolerance);
+    if (poseGuidance) return poseGuidance;
+    if (Math.abs(frame.yaw) >= this.captureThreshold) return 'Look straight at the camera';
+    const mouthOpen = mouthOpenRatio(frame.landmarks);
+    if (mouthOpen !== null && mouthOpen > NEUTRAL_MOUTH_OPEN) return 'Close your mouth';
+    return null;
+  }
+
+  private update(instruction: string): LivenessEngineUpdate {
+    return { stage: this.stage, instruction, captureTriggered: false };
+  }
+}
+
+function toDescriptor(challenge: LivenessChallenge): LivenessStage {
+  return { id: challenge.id, label: challenge.label, instruction: challenge.instruction };
+}
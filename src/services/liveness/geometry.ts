@@ -0,0 +1,85 @@
+/**
+ * Landmark geometry helpers shared by liveness challenges
+ */
+
+import type { FaceLandmark } from './types';
+
+export const LANDMARKS = {
+  LEFT_EYE_OUTER: 33,
+  RIGHT_EYE_OUTER: 263,
+  NOSE_TIP: 1,
+  NOSE_BOTTOM: 4,
+  NOSE_BRIDGE: 197,
+  MOUTH_LEFT: 61,
+  MOUTH_RIGHT: 291,
+  UPPER_LIP_INNER: 13,
+  LOWER_LIP_INNER: 14,
+} as const;
+
+// Eye contours in [outer, upper1, upper2, inner, lower2, lower1] order
+export const LEFT_EYE_CONTOUR = [33, 160, 158, 133, 153, 144] as const;
+export const RIGHT_EYE_CONTOUR = [263, 387, 385, 362, 380, 373] as const;
+
+export function distance(a: FaceLandmark, b: FaceLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function midpoint(a: FaceLandmark, b: FaceLandmark): FaceLandmark {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Eye aspect ratio: vertical eyelid opening over eye width. Drops towards 0 as the eye closes.
+ */
+export function eyeAspectRatio(landmarks: FaceLandmark[], contour: readonly number[]): number | null {
+  const [p1, p2, p3, p4, p5, p6] = contour.map((i) => landmarks[i]);
+  if (!p1 || !p2 || !p3 || !p4 || !p5 || !p6) return null;
+  const width = distance(p1, p4);
+  if (width < 1e-6) return null;
+  return (distance(p2, p6) + distance(p3, p5)) / (2 * width);
+}
+
+/**
+ * Mouth width relative to the distance between the outer eye corners
+ */
+export function mouthWidthRatio(landmarks: FaceLandmark[]): number | null {
+  const left = landmarks[LANDMARKS.MOUTH_LEFT];
+  const right = landmarks[LANDMARKS.MOUTH_RIGHT];
+  const eyeA = landmarks[LANDMARKS.LEFT_EYE_OUTER];
+  const eyeB = landmarks[LANDMARKS.RIGHT_EYE_OUTER];
+  if (!left || !right || !eyeA || !eyeB) return null;
+  const eyes = distance(eyeA, eyeB);
+  return eyes > 1e-6 ? distance(left, right) / eyes : null;
+}
+
+/**
+ * Inner lip gap relative to mouth width
+ */
+export function mouthOpenRatio(landmarks: FaceLandmark[]): number | null {
+  const upper = landmarks[LANDMARKS.UPPER_LIP_INNER];
+  const lower = landmarks[LANDMARKS.LOWER_LIP_INNER];
+  const left = landmarks[LANDMARKS.MOUTH_LEFT];
+  const right = landmarks[LANDMARKS.MOUTH_RIGHT];
+  if (!upper || !lower || !left || !right) return null;
+  const width = distance(left, right);
+  return width > 1e-6 ? distance(upper, lower) / width : null;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so a server-provided seed reproduces the same sequence
+ */
+export function createRandom(seed: string | number): () => number {
+  let h = 2166136261;
+  const text = String(seed);
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
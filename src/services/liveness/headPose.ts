@@ -0,0 +1,107 @@
+/**
+ * Head pose estimation from the FaceMesh landmarks
+ */
+
+import { LANDMARKS } from './geometry';
+import type { FaceLandmark } from './types';
+
+/**
+ * Head rotation in degrees.
+ * yaw: sideways turn, same sign as `LivenessFrame.yaw`.
+ * pitch: positive when looking up.
+ * roll: in-plane tilt of the eye line, positive when the eye with the larger x sits lower.
+ */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/**
+ * Largest absolute angle in degrees accepted on each axis
+ */
+export type HeadPoseTolerance = HeadPose;
+
+export const CENTER_POSE_TOLERANCE: HeadPoseTolerance = { yaw: 8, pitch: 12, roll: 8 };
+export const CAPTURE_POSE_TOLERANCE: HeadPoseTolerance = { yaw: 10, pitch: 15, roll: 10 };
+
+type Vector = [number, number, number];
+
+const FOREHEAD = 10;
+const CHIN = 152;
+const DEG = 180 / Math.PI;
+
+function sub(a: Vector, b: Vector): Vector {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vector): Vector | null {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length > 1e-9 ? [v[0] / length, v[1] / length, v[2] / length] : null;
+}
+
+/**
+ * Estimate the head pose from the face's own axes: the eye line and the
+ * chin-to-forehead line span the face plane, its normal gives yaw and pitch.
+ *
+ * @param aspectRatio - width / height of the space the landmarks are normalized to,
+ *   so x, y and z share one scale
+ */
+export function estimateHeadPose(landmarks: FaceLandmark[], aspectRatio = 1): HeadPose | null {
+  const point = (index: number): Vector | null => {
+    const p = landmarks[index];
+    return p ? [p.x, p.y / aspectRatio, p.z ?? 0] : null;
+  };
+
+  const eyeA = point(LANDMARKS.LEFT_EYE_OUTER);
+  const eyeB = point(LANDMARKS.RIGHT_EYE_OUTER);
+  const top = point(FOREHEAD);
+  const bottom = point(CHIN);
+  if (!eyeA || !eyeB || !top || !bottom) return null;
+
+  const [left, right] = eyeA[0] < eyeB[0] ? [eyeA, eyeB] : [eyeB, eyeA];
+  const xAxis = normalize(sub(right, left));
+  const upRaw = sub(top, bottom);
+  if (!xAxis) return null;
+  // Make the vertical axis perpendicular to the eye line
+  const projection = dot(upRaw, xAxis);
+  const up = normalize([upRaw[0] - projection * xAxis[0], upRaw[1] - projection * xAxis[1], upRaw[2] - projection * xAxis[2]]);
+  if (!up) return null;
+
+  let normal = normalize(cross(xAxis, up));
+  if (!normal) return null;
+  // FaceMesh z is negative towards the camera; point the normal out of the face
+  if (normal[2] > 0) {
+    normal = [-normal[0], -normal[1], -normal[2]];
+  }
+
+  return {
+    yaw: Math.atan2(normal[0], -normal[2]) * DEG,
+    pitch: Math.asin(Math.max(-1, Math.min(1, -normal[1]))) * DEG,
+    roll: Math.atan2(right[1] - left[1], right[0] - left[0]) * DEG,
+  };
+}
+
+/**
+ * Guidance for the first axis outside the tolerance, or null when the pose is acceptable
+ */
+export function headPoseGuidance(pose: HeadPose, tolerance: HeadPoseTolerance): string | null {
+  if (Math.abs(pose.roll) > tolerance.roll) {
+    return 'Keep your head level';
+  }
+  if (Math.abs(pose.pitch) > tolerance.pitch) {
+    return pose.pitch > 0 ? 'Lower your chin slightly' : 'Raise your chin slightly';
+  }
+  if (Math.abs(pose.yaw) > tolerance.yaw) {
+    return 'Look straight at the camera';
+  }
+  return null;
+}
@@ -0,0 +1,27 @@
+export {
+  LivenessChallengeEngine,
+  CENTER_STAGE,
+  DONE_STAGE,
+  registerLivenessChallenge,
+  getLivenessChallengeIds,
+  createLivenessChallenge,
+  createLivenessSequence,
+} from './engine';
+export type { LivenessEngineOptions, LivenessEngineUpdate, LivenessSequenceOptions } from './engine';
+export { estimateHeadPose, headPoseGuidance, CENTER_POSE_TOLERANCE, CAPTURE_POSE_TOLERANCE } from './headPose';
+export type { HeadPose, HeadPoseTolerance } from './headPose';
+export { BlinkDetector } from './blinkDetector';
+export type { BlinkDetectorOptions, BlinkSignal } from './blinkDetector';
+export { SpoofDetector, DEFAULT_SPOOF_WEIGHTS } from './spoofDetector';
+export type { SpoofDetectorOptions, SpoofSignal, SpoofCues, SpoofCue } from './spoofDetector';
+export * from './challenges';
+export { LANDMARKS, LEFT_EYE_CONTOUR, RIGHT_EYE_CONTOUR, eyeAspectRatio, mouthWidthRatio, mouthOpenRatio } from './geometry';
+export type {
+  FaceLandmark,
+  LivenessFrame,
+  LivenessStage,
+  ChallengeStatus,
+  ChallengeResult,
+  LivenessChallenge,
+  LivenessChallengeFactory,
+} from './types';
@@ -0,0 +1,489 @@
+/**
+ * Passive presentation-attack detection on the frames FaceMesh already processes
+ */
+
+import { LANDMARKS, LEFT_EYE_CONTOUR, RIGHT_EYE_CONTOUR } from './geometry';
+import type { FaceLandmark, LivenessFrame } from './types';
+
+/**
+ * Per-cue scores from 0 (looks live) to 1 (looks like a presentation attack),
+ * null until the cue has seen enough frames
+ */
+export interface SpoofCues {
+  /** Periodic high-frequency peaks in the skin texture, left by filming a screen */
+  moire: number | null;
+  /** Long straight edges around the face, such as the border of a phone or tablet */
+  screenBezel: number | null;
+  /** Clipped highlights across the face, from screen glare or glossy prints */
+  specular: number | null;
+  /** Nose parallax falling short of the mesh depth during head turns, as with a flat photo */
+  flatness: number | null;
+  /** Landmark motion that a rigid movement fully explains, as with a held or propped-up photo */
+  microMotion: number | null;
+}
+
+export type SpoofCue = keyof SpoofCues;
+
+/**
+ * Spoof summary recorded with the capture
+ */
+export interface SpoofSignal {
+  /** Weighted mean of the available cues, null while none has enough data */
+  score: number | null;
+  cues: SpoofCues;
+  /** Landmark frames analyzed */
+  framesAnalyzed: number;
+  /** Video frames whose pixels were analyzed */
+  pixelSamples: number;
+  /** Frames turned far enough to measure parallax */
+  turnFrames: number;
+}
+
+export interface SpoofDetectorOptions {
+  /** Minimum time between pixel samples. Defaults to 250ms. */
+  sampleIntervalMs?: number;
+  /** Minimum head turn, as the sine of the angle, for a frame to count towards flatness. Defaults to 0.25 (about 15°). */
+  minTurn?: number;
+  /** Weight of each cue in the combined score. Defaults to `DEFAULT_SPOOF_WEIGHTS`. */
+  weights?: Partial<Record<SpoofCue, number>>;
+}
+
+export const DEFAULT_SPOOF_WEIGHTS: Record<SpoofCue, number> = {
+  moire: 0.3,
+  screenBezel: 0.15,
+  specular: 0.1,
+  flatness: 0.25,
+  microMotion: 0.2,
+};
+
+// Square patch read at native video resolution; downscaling would blur the moiré away
+const MOIRE_PATCH = 64;
+// log10 of the whitened spectral peak over the band median; sensor noise alone sits around 1
+const MOIRE_LOG_RATIO_LIVE = 1.3;
+const MOIRE_LOG_RATIO_SPOOF = 2.3;
+const FRAME_SAMPLE_WIDTH = 160;
+const FACE_SAMPLE_SIZE = 48;
+const EDGE_THRESHOLD = 24;
+// Share of a row or column next to the face that must be edge pixels to count as a bezel line
+const BEZEL_LINE_COVERAGE = 0.8;
+const CLIPPED_LEVEL = 250;
+// Share of clipped face pixels that scores as a full specular cue
+const SPECULAR_FULL = 0.08;
+const MIN_PIXEL_SAMPLES = 3;
+
+const FRONTAL_YAW = 0.05;
+const MAX_PITCH = 10;
+// Observed nose shift over the shift the mesh depth predicts for the turn
+const PARALLAX_RATIO_FLAT = 0.1;
+const PARALLAX_RATIO_LIVE = 0.5;
+const MIN_TURN_FRAMES = 5;
+
+// Eyes, brows, mouth, nose and outline: enough spread for the affine fit and enough expression for the residual
+const MOTION_POINTS = [
+  ...LEFT_EYE_CONTOUR,
+  ...RIGHT_EYE_CONTOUR,
+  70, 105, 300, 334,
+  LANDMARKS.MOUTH_LEFT, LANDMARKS.MOUTH_RIGHT, LANDMARKS.UPPER_LIP_INNER, LANDMARKS.LOWER_LIP_INNER, 0, 17,
+  LANDMARKS.NOSE_TIP, LANDMARKS.NOSE_BOTTOM, LANDMARKS.NOSE_BRIDGE,
+  10, 152, 234, 454,
+];
+// Frames are compared this far apart; consecutive frames differ by little more than landmark noise
+const MOTION_LAG_MS = 250;
+const MAX_MOTION_LAG_MS = 500;
+// Non-rigid residual, relative to the eye distance, between landmark noise and a live face
+const NON_RIGID_SPOOF = 0.004;
+const NON_RIGID_LIVE = 0.012;
+const MIN_MOTION_PAIRS = 30;
+
+const MAX_HISTORY = 300;
+
+function ramp(value: number, low: number, high: number): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(p * (sorted.length - 1))];
+}
+
+function record(values: number[], value: number): void {
+  values.push(value);
+  if (values.length > MAX_HISTORY) values.shift();
+}
+
+function solve3(m: number[], b: number[]): number[] | null {
+  const det = (a: number[]) =>
+    a[0] * (a[4] * a[8] - a[5] * a[7]) - a[1] * (a[3] * a[8] - a[5] * a[6]) + a[2] * (a[3] * a[7] - a[4] * a[6]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+  return [0, 1, 2].map((col) => det(m.map((v, i) => (i % 3 === col ? b[Math.floor(i / 3)] : v))) / d);
+}
+
+/**
+ * RMS distance left over after the best affine map from `from` to `to`,
+ * i.e. the part of the motion that a rigid (or flat, tilting) face cannot produce
+ */
+function affineResidual(from: FaceLandmark[], to: FaceLandmark[], indices: readonly number[], aspect: number): number | null {
+  const pairs: Array<[number, number, number, number]> = [];
+  for (const i of indices) {
+    const p = from[i];
+    const q = to[i];
+    if (p && q) pairs.push([p.x * aspect, p.y, q.x * aspect, q.y]);
+  }
+  if (pairs.length < 6) return null;
+
+  const m = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const bx = [0, 0, 0];
+  const by = [0, 0, 0];
+  for (const [px, py, qx, qy] of pairs) {
+    const row = [px, py, 1];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) m[r * 3 + c] += row[r] * row[c];
+      bx[r] += row[r] * qx;
+      by[r] += row[r] * qy;
+    }
+  }
+  const ax = solve3(m, bx);
+  const ay = solve3(m, by);
+  if (!ax || !ay) return null;
+
+  let sum = 0;
+  for (const [px, py, qx, qy] of pairs) {
+    const dx = ax[0] * px + ax[1] * py + ax[2] - qx;
+    const dy = ay[0] * px + ay[1] * py + ay[2] - qy;
+    sum += dx * dx + dy * dy;
+  }
+  return Math.sqrt(sum / pairs.length);
+}
+
+/**
+ * Eye distance over the eye-to-mouth height. Turning the head shrinks the first
+ * and leaves the second, so the ratio against a frontal frame gives the turn's cosine.
+ */
+function widthToHeight(frame: LivenessFrame): number | null {
+  const { landmarks } = frame;
+  const eyeA = landmarks[LANDMARKS.LEFT_EYE_OUTER];
+  const eyeB = landmarks[LANDMARKS.RIGHT_EYE_OUTER];
+  const mouthA = landmarks[LANDMARKS.MOUTH_LEFT];
+  const mouthB = landmarks[LANDMARKS.MOUTH_RIGHT];
+  if (!eyeA || !eyeB || !mouthA || !mouthB) return null;
+  const height = Math.abs((mouthA.y + mouthB.y) / 2 - (eyeA.y + eyeB.y) / 2);
+  return height > 1e-6 ? frame.faceWidth / height : null;
+}
+
+/**
+ * How far the nose tip stands out of the eye/mouth plane according to the mesh, relative to the eye distance
+ */
+function noseDepth(frame: LivenessFrame): number | null {
+  const plane = [LANDMARKS.LEFT_EYE_OUTER, LANDMARKS.RIGHT_EYE_OUTER, LANDMARKS.MOUTH_LEFT, LANDMARKS.MOUTH_RIGHT]
+    .map((i) => frame.landmarks[i]?.z);
+  const nose = frame.landmarks[LANDMARKS.NOSE_TIP]?.z;
+  if (nose === undefined || plane.some((z) => z === undefined) || frame.faceWidth <= 0) return null;
+  const planeZ = (plane as number[]).reduce((a, b) => a + b, 0) / plane.length;
+  // FaceMesh depth decreases towards the camera
+  return (planeZ - nose) / frame.faceWidth;
+}
+
+function toGray(data: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * Strongest spectral peak over the median in the high-frequency band of an n×n
+ * patch. The spectrum is whitened first so the natural 1/f falloff of skin
+ * texture doesn't read as a peak; moiré shows up as isolated spikes.
+ */
+function moireRatio(gray: Float32Array, n: number): number {
+  let mean = 0;
+  for (const v of gray) mean += v;
+  mean /= gray.length;
+
+  // Hann window, so the patch border doesn't add energy along the axes
+  const window = Array.from({ length: n }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  const cos = Array.from({ length: n }, (_, k) => Math.cos((2 * Math.PI * k) / n));
+  const sin = Array.from({ length: n }, (_, k) => Math.sin((2 * Math.PI * k) / n));
+
+  // Separable DFT: rows, then columns
+  const rowRe = new Float32Array(n * n);
+  const rowIm = new Float32Array(n * n);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < n; u++) {
+      let re = 0;
+      let im = 0;
+      for (let x = 0; x < n; x++) {
+        const v = (gray[y * n + x] - mean) * window[x] * window[y];
+        const k = (u * x) % n;
+        re += v * cos[k];
+        im -= v * sin[k];
+      }
+      rowRe[y * n + u] = re;
+      rowIm[y * n + u] = im;
+    }
+  }
+
+  const band: number[] = [];
+  for (let u = 0; u < n; u++) {
+    const fu = u <= n / 2 ? u : u - n;
+    for (let v = 0; v < n; v++) {
+      const fv = v <= n / 2 ? v : v - n;
+      const r = Math.hypot(fu, fv);
+      // Periods of 2 to 16 pixels; longer ones are face shading
+      if (r < n / 16 || r > n / 2) continue;
+      let re = 0;
+      let im = 0;
+      for (let y = 0; y < n; y++) {
+        const k = (v * y) % n;
+        const a = rowRe[y * n + u];
+        const b = rowIm[y * n + u];
+        re += a * cos[k] + b * sin[k];
+        im += b * cos[k] - a * sin[k];
+      }
+      band.push((re * re + im * im) * r * r);
+    }
+  }
+  const median = percentile(band, 0.5);
+  return median > 0 ? Math.max(...band) / median : 1;
+}
+
+/**
+ * Number of sides of the face box (0-4) with a straight edge running across it within one face size
+ */
+function bezelSides(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  box: { x0: number; x1: number; y0: number; y1: number }
+): number {
+  const faceW = box.x1 - box.x0;
+  const faceH = box.y1 - box.y0;
+  const xa = Math.max(1, Math.round(box.x0 - faceW / 4));
+  const xb = Math.min(width - 2, Math.round(box.x1 + faceW / 4));
+  const ya = Math.max(1, Math.round(box.y0 - faceH / 4));
+  const yb = Math.min(height - 2, Math.round(box.y1 + faceH / 4));
+
+  const rowCoverage = (y: number) => {
+    let edges = 0;
+    for (let x = xa; x <= xb; x++) {
+      if (Math.abs(gray[(y + 1) * width + x] - gray[(y - 1) * width + x]) > EDGE_THRESHOLD) edges++;
+    }
+    return edges / (xb - xa + 1);
+  };
+  const columnCoverage = (x: number) => {
+    let edges = 0;
+    for (let y = ya; y <= yb; y++) {
+      if (Math.abs(gray[y * width + x + 1] - gray[y * width + x - 1]) > EDGE_THRESHOLD) edges++;
+    }
+    return edges / (yb - ya + 1);
+  };
+  const hasLine = (from: number, to: number, coverage: (i: number) => number) => {
+    for (let i = Math.round(from); i <= Math.round(to); i++) {
+      if (coverage(i) >= BEZEL_LINE_COVERAGE) return true;
+    }
+    return false;
+  };
+
+  let sides = 0;
+  if (xb - xa >= 8) {
+    if (hasLine(Math.max(1, box.y0 - faceH), box.y0 - 2, rowCoverage)) sides++;
+    if (hasLine(box.y1 + 2, Math.min(height - 2, box.y1 + faceH), rowCoverage)) sides++;
+  }
+  if (yb - ya >= 8) {
+    if (hasLine(Math.max(1, box.x0 - faceW), box.x0 - 2, columnCoverage)) sides++;
+    if (hasLine(box.x1 + 2, Math.min(width - 2, box.x1 + faceW), columnCoverage)) sides++;
+  }
+  return sides;
+}
+
+export class SpoofDetector {
+  private sampleIntervalMs: number;
+  private minTurn: number;
+  private weights: Record<SpoofCue, number>;
+  private canvas: HTMLCanvasElement | null = null;
+  private lastSampleAt = -Infinity;
+  private pixelSamples = 0;
+  private framesAnalyzed = 0;
+  private recent: LivenessFrame[] = [];
+  private reference: { ratio: number; depth: number; yaw: number } | null = null;
+  private moire: number[] = [];
+  private bezel: number[] = [];
+  private specular: number[] = [];
+  private parallax: number[] = [];
+  private motion: number[] = [];
+
+  constructor(options: SpoofDetectorOptions = {}) {
+    this.sampleIntervalMs = options.sampleIntervalMs ?? 250;
+    this.minTurn = options.minTurn ?? 0.25;
+    this.weights = { ...DEFAULT_SPOOF_WEIGHTS, ...options.weights };
+  }
+
+  get signal(): SpoofSignal {
+    const enoughPixels = (values: number[]) => values.length >= MIN_PIXEL_SAMPLES;
+    // Average of the largest tenth: live faces move non-rigidly in bursts (blinks, speech), not constantly
+    const topMotion = () => {
+      const sorted = [...this.motion].sort((a, b) => b - a);
+      const top = sorted.slice(0, Math.max(1, Math.round(sorted.length / 10)));
+      return top.reduce((a, b) => a + b, 0) / top.length;
+    };
+    const cues: SpoofCues = {
+      // Moiré comes and goes as the screen moves, so a few strong samples count
+      moire: enoughPixels(this.moire) ? percentile(this.moire, 0.75) : null,
+      screenBezel: enoughPixels(this.bezel) ? percentile(this.bezel, 0.5) : null,
+      specular: enoughPixels(this.specular) ? percentile(this.specular, 0.5) : null,
+      flatness: this.parallax.length >= MIN_TURN_FRAMES ? percentile(this.parallax, 0.5) : null,
+      microMotion: this.motion.length >= MIN_MOTION_PAIRS ? 1 - ramp(topMotion(), NON_RIGID_SPOOF, NON_RIGID_LIVE) : null,
+    };
+
+    let weighted = 0;
+    let total = 0;
+    for (const cue of Object.keys(cues) as SpoofCue[]) {
+      const value = cues[cue];
+      if (value === null || !(this.weights[cue] > 0)) continue;
+      weighted += value * this.weights[cue];
+      total += this.weights[cue];
+    }
+
+    return {
+      score: total > 0 ? weighted / total : null,
+      cues,
+      framesAnalyzed: this.framesAnalyzed,
+      pixelSamples: this.pixelSamples,
+      turnFrames: this.parallax.length,
+    };
+  }
+
+  reset(): void {
+    this.lastSampleAt = -Infinity;
+    this.pixelSamples = 0;
+    this.framesAnalyzed = 0;
+    this.recent = [];
+    this.reference = null;
+    this.moire = [];
+    this.bezel = [];
+    this.specular = [];
+    this.parallax = [];
+    this.motion = [];
+  }
+
+  /**
+   * Feed one landmark frame. `aspect` is the width over the height of the space
+   * the landmarks are normalized to.
+   */
+  update(frame: LivenessFrame, aspect = 1): void {
+    this.framesAnalyzed++;
+    this.updateMotion(frame, aspect);
+    this.updateParallax(frame);
+  }
+
+  /**
+   * Analyze the pixels of a video frame, at most once per `sampleIntervalMs`.
+   * `landmarks` are normalized to the source. Returns true when a sample was taken.
+   */
+  sample(source: CanvasImageSource, width: number, height: number, landmarks: FaceLandmark[], timestamp: number): boolean {
+    if (timestamp - this.lastSampleAt < this.sampleIntervalMs || width <= 0 || height <= 0) return false;
+    const xs = landmarks.map((p) => p.x * width);
+    const ys = landmarks.map((p) => p.y * height);
+    const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+    const faceW = maxX - minX, faceH = maxY - minY;
+    if (!(faceW >= 16 && faceH >= 16)) return false;
+
+    const frameH = Math.max(1, Math.round((FRAME_SAMPLE_WIDTH * height) / width));
+    const ctx = this.context(FRAME_SAMPLE_WIDTH, Math.max(frameH, MOIRE_PATCH));
+    if (!ctx) return false;
+    this.lastSampleAt = timestamp;
+
+    try {
+      // Moiré: a native-resolution patch from the middle of the face, skipped when the face is too small to hold one
+      if (faceW >= MOIRE_PATCH * 1.5 && faceH >= MOIRE_PATCH * 1.5) {
+        const sx = Math.round((minX + maxX) / 2 - MOIRE_PATCH / 2);
+        const sy = Math.round((minY + maxY) / 2 - MOIRE_PATCH / 2);
+        ctx.drawImage(source, sx, sy, MOIRE_PATCH, MOIRE_PATCH, 0, 0, MOIRE_PATCH, MOIRE_PATCH);
+        const patch = toGray(ctx.getImageData(0, 0, MOIRE_PATCH, MOIRE_PATCH).data);
+        record(this.moire, ramp(Math.log10(moireRatio(patch, MOIRE_PATCH)), MOIRE_LOG_RATIO_LIVE, MOIRE_LOG_RATIO_SPOOF));
+      }
+
+      // Specular: clipped pixels inside the face, inset to leave out the background
+      const inset = 0.15;
+      ctx.drawImage(
+        source,
+        minX + faceW * inset, minY + faceH * inset, faceW * (1 - 2 * inset), faceH * (1 - 2 * inset),
+        0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE
+      );
+      const face = ctx.getImageData(0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE).data;
+      let clipped = 0;
+      for (let i = 0; i < face.length; i += 4) {
+        if (face[i] >= CLIPPED_LEVEL && face[i + 1] >= CLIPPED_LEVEL && face[i + 2] >= CLIPPED_LEVEL) clipped++;
+      }
+      record(this.specular, Math.min(1, clipped / (face.length / 4) / SPECULAR_FULL));
+
+      // Bezel: the whole frame, downscaled. One straight edge is often furniture; two or more frame the face.
+      ctx.drawImage(source, 0, 0, width, height, 0, 0, FRAME_SAMPLE_WIDTH, frameH);
+      const frame = toGray(ctx.getImageData(0, 0, FRAME_SAMPLE_WIDTH, frameH).data);
+      const scale = FRAME_SAMPLE_WIDTH / width;
+      const sides = bezelSides(frame, FRAME_SAMPLE_WIDTH, frameH, {
+        x0: minX * scale, x1: maxX * scale, y0: minY * scale, y1: maxY * scale,
+      });
+      record(this.bezel, Math.min(1, Math.max(0, sides - 1) / 2));
+    } catch {
+      // The video isn't readable yet
+      return false;
+    }
+    this.pixelSamples++;
+    return true;
+  }
+
+  private context(width: number, height: number): CanvasRenderingContext2D | null {
+    if (typeof document === 'undefined') return null;
+    this.canvas ??= document.createElement('canvas');
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    return this.canvas.getContext('2d', { willReadFrequently: true });
+  }
+
+  private updateMotion(frame: LivenessFrame, aspect: number): void {
+    this.recent = this.recent.filter((f) => frame.timestamp - f.timestamp <= MAX_MOTION_LAG_MS);
+    this.recent.push(frame);
+    // The newest frame at least MOTION_LAG_MS old
+    const previous = this.recent.filter((f) => frame.timestamp - f.timestamp >= MOTION_LAG_MS).pop();
+    if (!previous || frame.faceWidth <= 0) return;
+    const residual = affineResidual(previous.landmarks, frame.landmarks, MOTION_POINTS, aspect);
+    if (residual !== null) {
+      record(this.motion, residual / (frame.faceWidth * aspect));
+    }
+  }
+
+  /**
+   * A real nose shifts against the eyes as the head turns, by about its depth
+   * times the sine of the turn. A photo tilted the same way foreshortens without
+   * any shift, even though the mesh still infers a nose depth from its appearance.
+   */
+  private updateParallax(frame: LivenessFrame): void {
+    // Nodding shortens the eye-to-mouth height and would pass for a turn in the ratio
+    if (!frame.pose || Math.abs(frame.pose.pitch) > MAX_PITCH) return;
+    const ratio = widthToHeight(frame);
+    if (ratio === null) return;
+
+    // The turn comes from foreshortening rather than yaw, which a flat photo never shows
+    const cos = this.reference ? Math.min(1, ratio / this.reference.ratio) : 1;
+    const sin = Math.sqrt(1 - cos * cos);
+    if (sin < this.minTurn || !this.reference) {
+      // The widest frontal view is the most frontal one. Only widening the
+      // reference keeps a slowly tilted photo from dragging it along.
+      const depth = noseDepth(frame);
+      if (Math.abs(frame.yaw) <= FRONTAL_YAW && depth !== null && depth > 0 && cos >= 1) {
+        this.reference = { ratio, depth, yaw: frame.yaw };
+      }
+      return;
+    }
+
+    const expected = this.reference.depth * sin;
+    // Yaw is relative to the current eye distance; scale it back to the frontal one
+    const observed = Math.abs(frame.yaw - this.reference.yaw) * cos;
+    record(this.parallax, 1 - ramp(observed / expected, PARALLAX_RATIO_FLAT, PARALLAX_RATIO_LIVE));
+  }
+}
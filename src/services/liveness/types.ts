@@ -0,0 +1,58 @@
+/**
+ * Liveness challenge types
+ */
+
+import type { HeadPose } from './headPose';
+
+export interface FaceLandmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/**
+ * One processed FaceMesh result, in un-mirrored coordinates normalized to the overlay canvas
+ */
+export interface LivenessFrame {
+  landmarks: FaceLandmark[];
+  /** Horizontal nose offset from the eye midpoint, relative to eye distance. Negative is a turn to the user's left. */
+  yaw: number;
+  /** Vertical nose offset below the eye midpoint, relative to eye distance */
+  pitch: number;
+  /** Estimated head rotation in degrees, null when the mesh is incomplete */
+  pose: HeadPose | null;
+  /** Distance between the outer eye corners */
+  faceWidth: number;
+  box: { minX: number; maxX: number; minY: number; maxY: number };
+  insideGuide: boolean;
+  timestamp: number;
+}
+
+/**
+ * Extensible description of a liveness step, safe to render in any UI
+ */
+export interface LivenessStage {
+  id: string;
+  label: string;
+  instruction: string;
+}
+
+export type ChallengeStatus = 'pending' | 'passed';
+
+export interface ChallengeResult {
+  status: ChallengeStatus;
+  /** Guidance to show instead of the default instruction */
+  hint?: string;
+}
+
+/**
+ * A single liveness challenge. Implementations keep their own per-attempt
+ * state; `reset` is called with the first frame of each attempt, taken once
+ * the face is back at rest after the previous stage.
+ */
+export interface LivenessChallenge extends LivenessStage {
+  reset(frame?: LivenessFrame): void;
+  evaluate(frame: LivenessFrame): ChallengeResult;
+}
+
+export type LivenessChallengeFactory = () => LivenessChallenge;
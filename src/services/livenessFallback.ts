@@ -0,0 +1,59 @@
+/**
+ * Liveness fallback
+ * What the face scan does when the camera or the liveness model is unavailable
+ */
+
+/**
+ * How a merchant handles a face scan that can't run the liveness check:
+ * `block` stops the flow, `allow` accepts a plain capture flagged as having no
+ * liveness, `video` asks for a short recorded video selfie instead
+ */
+export type LivenessFallbackPolicy = 'block' | 'allow' | 'video';
+
+export const LivenessMode = {
+  /** The liveness challenges were completed */
+  ACTIVE: 'active',
+  /** No liveness evidence; the server should treat the capture accordingly */
+  NONE: 'none',
+  /** A recorded video selfie stands in for the challenges */
+  VIDEO_SELFIE: 'video_selfie',
+} as const;
+
+export type LivenessMode = (typeof LivenessMode)[keyof typeof LivenessMode];
+
+export const LivenessFallbackReason = {
+  /** The face detection model failed or timed out */
+  MODEL_UNAVAILABLE: 'MODEL_UNAVAILABLE',
+  /** The camera could not be opened, so the capture came from a file */
+  CAMERA_UNAVAILABLE: 'CAMERA_UNAVAILABLE',
+} as const;
+
+export type LivenessFallbackReason = (typeof LivenessFallbackReason)[keyof typeof LivenessFallbackReason];
+
+/**
+ * How liveness was established for a capture, uploaded as `metadata.liveness`
+ */
+export interface LivenessModeRecord {
+  mode: LivenessMode;
+  /** Policy in force when the capture was taken */
+  policy: LivenessFallbackPolicy;
+  /** Why the fallback was used, null when the challenges ran */
+  reason: LivenessFallbackReason | null;
+  /** Whether the image came from the live camera or from a file the user picked */
+  source: 'camera' | 'file';
+}
+
+/**
+ * What a capture taken without the liveness check counts as under `policy`,
+ * null when the policy blocks it
+ */
+export function livenessFallbackMode(policy: LivenessFallbackPolicy): LivenessMode | null {
+  switch (policy) {
+    case 'allow':
+      return LivenessMode.NONE;
+    case 'video':
+      return LivenessMode.VIDEO_SELFIE;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * MediaPipe asset resolution
+ * Decides where the FaceMesh model files are loaded from, and optionally
+ * downloads and verifies them up front
+ */
+
+import { AstraSDKError } from '../sdk/types';
+
+export const FACE_MESH_VERSION = '0.4.1633559619';
+export const DEFAULT_FACE_MESH_BASE_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@${FACE_MESH_VERSION}/`;
+
+const COMMON_FILES = [
+  'face_mesh.binarypb',
+  'face_mesh_solution_packed_assets_loader.js',
+  'face_mesh_solution_packed_assets.data',
+];
+const SIMD_FILES = [
+  'face_mesh_solution_simd_wasm_bin.js',
+  'face_mesh_solution_simd_wasm_bin.wasm',
+  'face_mesh_solution_simd_wasm_bin.data',
+];
+const NO_SIMD_FILES = ['face_mesh_solution_wasm_bin.js', 'face_mesh_solution_wasm_bin.wasm'];
+
+// Smallest module using a SIMD instruction (same probe as wasm-feature-detect)
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+export interface FaceMeshAssetOptions {
+  /**
+   * Directory the model files are served from, e.g. `/mediapipe/face_mesh/`
+   * after running `scripts/copy-assets.mjs`. Defaults to jsDelivr.
+   */
+  baseUrl?: string;
+  /** Full control over each file's URL. Takes precedence over `baseUrl`. */
+  locateFile?: (file: string) => string;
+  /**
+   * Expected hashes keyed by file name, as `sha256-<base64>` (the format of
+   * the manifest written by `scripts/copy-assets.mjs`). Implies `preload`.
+   */
+  integrity?: Record<string, string>;
+  /** Download the model before FaceMesh starts, reporting progress. Defaults to false. */
+  preload?: boolean;
+}
+
+export interface AssetLoadProgress {
+  file: string;
+  /** Bytes received across all files so far */
+  loaded: number;
+  /** Total bytes, null until every file reported its size */
+  total: number | null;
+}
+
+export type AssetProgressListener = (progress: AssetLoadProgress) => void;
+
+/**
+ * Raised when a downloaded model file does not match its expected hash
+ */
+export class AssetIntegrityError extends AstraSDKError {
+  constructor(file: string, expected: string, actual: string) {
+    super(`Integrity check failed for ${file}`, undefined, 'ASSET_INTEGRITY_ERROR', { file, expected, actual });
+    this.name = 'AssetIntegrityError';
+    Object.setPrototypeOf(this, AssetIntegrityError.prototype);
+  }
+}
+
+/**
+ * Build the `locateFile` handed to FaceMesh from the asset options
+ */
+export function createAssetResolver(options: FaceMeshAssetOptions = {}): (file: string) => string {
+  if (options.locateFile) {
+    return options.locateFile;
+  }
+  const baseUrl = options.baseUrl ?? DEFAULT_FACE_MESH_BASE_URL;
+  const prefix = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  return (file: string) => `${prefix}${file}`;
+}
+
+/**
+ * Model files FaceMesh will request on this browser
+ */
+export function getFaceMeshAssetFiles(): string[] {
+  let simd = false;
+  try {
+    simd = typeof WebAssembly === 'object' && WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    simd = false;
+  }
+  return [...COMMON_FILES, ...(simd ? SIMD_FILES : NO_SIMD_FILES)];
+}
+
+async function sha256(buffer: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+  let binary = '';
+  digest.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `sha256-${btoa(binary)}`;
+}
+
+async function download(
+  url: string,
+  onChunk: (bytes: number, total: number | null) => void
+): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new AstraSDKError(`Failed to load ${url}`, response.status, 'ASSET_LOAD_ERROR');
+  }
+  const length = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(length) && length > 0 ? length : null;
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onChunk(buffer.byteLength, buffer.byteLength);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+    onChunk(value.byteLength, total);
+  }
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+}
+
+interface PreloadEntry {
+  promise: Promise<(file: string) => string>;
+  listeners: Set<AssetProgressListener>;
+}
+
+// One download per asset location for the lifetime of the page
+const preloads = new Map<string, PreloadEntry>();
+
+/**
+ * Download (and verify, when hashes are given) the model files, then return a
+ * `locateFile` serving them from memory. Repeated calls share one download, so
+ * a host can warm the model up early, e.g. while the QR code is shown.
+ */
+export function preloadFaceMeshAssets(
+  options: FaceMeshAssetOptions = {},
+  onProgress?: AssetProgressListener
+): Promise<(file: string) => string> {
+  const resolve = createAssetResolver(options);
+  const files = getFaceMeshAssetFiles();
+  const key = files.map(resolve).join('|');
+
+  let entry = preloads.get(key);
+  if (!entry) {
+    const listeners = new Set<AssetProgressListener>();
+    const promise = (async () => {
+      const sizes = new Map<string, number | null>();
+      let loaded = 0;
+      const report = (file: string) => {
+        const known = [...sizes.values()];
+        const total = known.length === files.length && known.every((size) => size !== null)
+          ? known.reduce<number>((sum, size) => sum + (size ?? 0), 0)
+          : null;
+        listeners.forEach((listener) => listener({ file, loaded, total }));
+      };
+
+      const urls = await Promise.all(files.map(async (file) => {
+        const buffer = await download(resolve(file), (bytes, total) => {
+          sizes.set(file, total);
+          loaded += bytes;
+          report(file);
+        });
+        const expected = options.integrity?.[file];
+        if (expected) {
+          const actual = await sha256(buffer);
+          if (actual !== expected) {
+            throw new AssetIntegrityError(file, expected, actual);
+          }
+        }
+        const type = file.endsWith('.wasm') ? 'application/wasm' : file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream';
+        return [file, URL.createObjectURL(new Blob([buffer], { type }))] as const;
+      }));
+
+      const objectUrls = new Map<string, string>(urls);
+      // Anything not preloaded (e.g. a file added by a newer FaceMesh) still resolves normally
+      return (file: string) => objectUrls.get(file) ?? resolve(file);
+    })();
+
+    entry = { promise, listeners };
+    preloads.set(key, entry);
+    // A failed download can be retried by calling again
+    promise.catch(() => preloads.delete(key));
+  }
+
+  if (onProgress) {
+    const { listeners } = entry;
+    listeners.add(onProgress);
+    entry.promise.then(
+      () => listeners.delete(onProgress),
+      () => listeners.delete(onProgress)
+    );
+  }
+  return entry.promise;
+}
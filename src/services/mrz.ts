@@ -0,0 +1,379 @@
+/**
+ * Machine-readable zone (MRZ) reading
+ * Locates the MRZ on a document image, parses TD1/TD3 lines and validates the ICAO 9303 check digits
+ */
+
+/** TD3: passports, 2 lines of 44. TD1: ID cards, 3 lines of 30. */
+export type MrzFormat = 'TD1' | 'TD3';
+
+export interface MrzFields {
+  format: MrzFormat;
+  /** e.g. `P` for passports, `I` / `ID` for identity cards */
+  documentCode: string;
+  issuingCountry: string;
+  documentNumber: string;
+  nationality: string;
+  /** ISO date (YYYY-MM-DD), null when the digits do not form a date */
+  birthDate: string | null;
+  /** `M`, `F` or `X` */
+  sex: string;
+  /** ISO date (YYYY-MM-DD), null when the digits do not form a date */
+  expiryDate: string | null;
+  surname: string;
+  givenNames: string;
+  /** Personal number (TD3) or optional data (TD1), without fillers */
+  optionalData: string;
+}
+
+export interface MrzResult {
+  fields: MrzFields;
+  /** Outcome of each check digit, keyed by the field it protects */
+  checks: Record<string, boolean>;
+  /** True when every check digit matches */
+  valid: boolean;
+  /** The MRZ lines as parsed, after OCR clean-up */
+  lines: string[];
+}
+
+export interface MrzRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * OCR for the MRZ crop. Returns the recognised text, one MRZ line per text line.
+ * Any engine works; an OCR-B model (e.g. Tesseract's `mrz` traineddata) reads best.
+ */
+export type MrzTextRecognizer = (image: HTMLCanvasElement) => Promise<string>;
+
+export type MrzReadResult =
+  | { status: 'valid'; mrz: MrzResult }
+  | { status: 'invalid'; mrz: MrzResult }
+  /** No MRZ found in the image or its text could not be parsed */
+  | { status: 'unreadable' }
+  /** No recognizer was given and the browser has no built-in text detection */
+  | { status: 'unavailable' };
+
+const LINE_LENGTH: Record<MrzFormat, number> = { TD1: 30, TD3: 44 };
+const LINE_COUNT: Record<MrzFormat, number> = { TD1: 3, TD3: 2 };
+
+// Characters OCR commonly confuses, corrected by what the position must hold
+const TO_DIGIT: Record<string, string> = { O: '0', Q: '0', D: '0', U: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8' };
+const TO_LETTER: Record<string, string> = { '0': 'O', '1': 'I', '2': 'Z', '5': 'S', '6': 'G', '8': 'B' };
+
+/**
+ * ICAO 9303 check digit: weights 7, 3, 1 over digits, letters (A=10 … Z=35) and fillers (0)
+ */
+export function mrzCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let code = 0;
+    if (char >= '0' && char <= '9') code = char.charCodeAt(0) - 48;
+    else if (char >= 'A' && char <= 'Z') code = char.charCodeAt(0) - 55;
+    sum += code * weights[i % 3];
+  }
+  return sum % 10;
+}
+
+function verify(value: string, checkChar: string): boolean {
+  // An empty optional field may carry a filler as its check digit
+  if (checkChar === '<') return /^<*$/.test(value);
+  return mrzCheckDigit(value) === Number(checkChar);
+}
+
+function digits(value: string): string {
+  return value.replace(/[^0-9<]/g, (char) => TO_DIGIT[char] ?? char);
+}
+
+function letters(value: string): string {
+  return value.replace(/[^A-Z<]/g, (char) => TO_LETTER[char] ?? char);
+}
+
+function strip(value: string): string {
+  return value.replace(/<+$/g, '').replace(/</g, ' ').trim();
+}
+
+function toIsoDate(value: string, kind: 'birth' | 'expiry'): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const currentYY = new Date().getFullYear() % 100;
+  // Birth dates are in the past; expiry dates are at most a few decades ahead
+  const century = kind === 'birth' ? (yy > currentYY ? 1900 : 2000) : (yy >= currentYY + 50 ? 1900 : 2000);
+  return `${century + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+function parseNames(value: string): { surname: string; givenNames: string } {
+  const [surname, ...rest] = letters(value).split('<<');
+  return { surname: strip(surname ?? ''), givenNames: strip(rest.join('<<')) };
+}
+
+/**
+ * Clean OCR output into candidate MRZ lines
+ */
+function normalizeLines(text: string | string[]): string[] {
+  const raw = Array.isArray(text) ? text : text.split(/\r?\n/);
+  return raw
+    .map((line) => line.toUpperCase().replace(/«/g, '<').replace(/\s+/g, '').replace(/[^A-Z0-9<]/g, ''))
+    .filter((line) => line.length >= 5 && line.includes('<'));
+}
+
+function fitLines(lines: string[], format: MrzFormat): string[] | null {
+  const length = LINE_LENGTH[format];
+  const count = LINE_COUNT[format];
+  const picked = lines.filter((line) => line.length <= length).slice(-count);
+  if (picked.length < count) return null;
+  // OCR tends to drop trailing fillers. The name line can lose most of its
+  // length that way; the data lines only a few characters.
+  const nameIndex = format === 'TD3' ? 0 : 2;
+  if (picked.some((line, i) => i !== nameIndex && line.length < length - 4)) return null;
+  return picked.map((line) => line.padEnd(length, '<'));
+}
+
+function parseTd3([line1, line2]: string[]): MrzResult {
+  const documentNumber = line2.slice(0, 9);
+  const birth = digits(line2.slice(13, 19));
+  const expiry = digits(line2.slice(21, 27));
+  const personal = line2.slice(28, 42);
+  const checkDigits = digits(line2[9] + line2[19] + line2[27] + line2[42] + line2[43]);
+  const composite = documentNumber + checkDigits[0] + birth + checkDigits[1] + expiry + checkDigits[2] + personal + checkDigits[3];
+
+  const checks = {
+    documentNumber: verify(documentNumber, checkDigits[0]),
+    birthDate: verify(birth, checkDigits[1]),
+    expiryDate: verify(expiry, checkDigits[2]),
+    optionalData: verify(personal, checkDigits[3]),
+    composite: verify(composite, checkDigits[4]),
+  };
+  const fields: MrzFields = {
+    format: 'TD3',
+    documentCode: strip(letters(line1.slice(0, 2))),
+    issuingCountry: strip(letters(line1.slice(2, 5))),
+    documentNumber: strip(documentNumber),
+    nationality: strip(letters(line2.slice(10, 13))),
+    birthDate: toIsoDate(birth, 'birth'),
+    sex: line2[20] === '<' ? 'X' : letters(line2[20]),
+    expiryDate: toIsoDate(expiry, 'expiry'),
+    ...parseNames(line1.slice(5)),
+    optionalData: strip(personal),
+  };
+  return {
+    fields,
+    checks,
+    valid: Object.values(checks).every(Boolean),
+    lines: [line1, line2.slice(0, 13) + birth + line2.slice(19, 21) + expiry + line2.slice(27)],
+  };
+}
+
+function parseTd1([line1, line2, line3]: string[]): MrzResult {
+  let documentNumber = line1.slice(5, 14);
+  let numberCheck = line1[14];
+  const optional1 = line1.slice(15, 30);
+  // Numbers longer than 9 characters continue in the optional data, followed by their check digit
+  if (numberCheck === '<') {
+    const overflow = optional1.replace(/<.*$/, '');
+    documentNumber += overflow.slice(0, -1);
+    numberCheck = overflow.slice(-1);
+  }
+  const birth = digits(line2.slice(0, 6));
+  const expiry = digits(line2.slice(8, 14));
+  const checkDigits = digits(line2[6] + line2[14] + line2[29]);
+  const composite = line1.slice(5, 30) + birth + checkDigits[0] + expiry + checkDigits[1] + line2.slice(18, 29);
+
+  const checks = {
+    documentNumber: verify(documentNumber, digits(numberCheck)),
+    birthDate: verify(birth, checkDigits[0]),
+    expiryDate: verify(expiry, checkDigits[1]),
+    composite: verify(composite, checkDigits[2]),
+  };
+  const fields: MrzFields = {
+    format: 'TD1',
+    documentCode: strip(letters(line1.slice(0, 2))),
+    issuingCountry: strip(letters(line1.slice(2, 5))),
+    documentNumber: strip(documentNumber),
+    nationality: strip(letters(line2.slice(15, 18))),
+    birthDate: toIsoDate(birth, 'birth'),
+    sex: line2[7] === '<' ? 'X' : letters(line2[7]),
+    expiryDate: toIsoDate(expiry, 'expiry'),
+    ...parseNames(line3),
+    optionalData: strip(line1[14] === '<' ? line2.slice(18, 29) : optional1 + line2.slice(18, 29)),
+  };
+  return {
+    fields,
+    checks,
+    valid: Object.values(checks).every(Boolean),
+    lines: [line1, birth + line2.slice(6, 8) + expiry + line2.slice(14), line3],
+  };
+}
+
+/**
+ * Parse MRZ text (e.g. OCR output). Non-MRZ lines around it are ignored.
+ *
+ * @param format - expected format; both are tried when omitted, TD3 first
+ */
+export function parseMrz(text: string | string[], format?: MrzFormat): MrzResult | null {
+  const lines = normalizeLines(text);
+  for (const candidate of format ? [format] : (['TD3', 'TD1'] as MrzFormat[])) {
+    const fitted = fitLines(lines, candidate);
+    if (fitted) return candidate === 'TD3' ? parseTd3(fitted) : parseTd1(fitted);
+  }
+  return null;
+}
+
+/**
+ * Find the MRZ: the lowest group of two or three text lines spanning most of the width
+ */
+export function locateMrz(image: ImageData): MrzRegion | null {
+  const { width, height, data } = image;
+  const gray = new Uint8Array(width * height);
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    gray[i] = value;
+    histogram[value]++;
+  }
+
+  // Otsu threshold separates ink from paper
+  const total = width * height;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * histogram[v];
+  let sumBackground = 0, weightBackground = 0, bestVariance = 0, threshold = 128;
+  for (let v = 0; v < 256; v++) {
+    weightBackground += histogram[v];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += v * histogram[v];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = v;
+    }
+  }
+
+  // Rows with enough ink spread across the width belong to a text line
+  const rows: Array<{ ink: boolean; left: number; right: number }> = [];
+  for (let y = 0; y < height; y++) {
+    let count = 0, left = width, right = -1;
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) {
+        count++;
+        left = Math.min(left, x);
+        right = x;
+      }
+    }
+    rows.push({ ink: count > width * 0.05, left, right });
+  }
+
+  const bands: Array<{ top: number; bottom: number; left: number; right: number }> = [];
+  for (let y = 0; y < height; y++) {
+    if (!rows[y].ink) continue;
+    const band = { top: y, bottom: y, left: rows[y].left, right: rows[y].right };
+    while (y + 1 < height && rows[y + 1].ink) {
+      y++;
+      band.bottom = y;
+      band.left = Math.min(band.left, rows[y].left);
+      band.right = Math.max(band.right, rows[y].right);
+    }
+    const bandHeight = band.bottom - band.top + 1;
+    if (band.right - band.left >= width * 0.6 && bandHeight >= 4 && bandHeight <= height * 0.15) {
+      bands.push(band);
+    }
+  }
+
+  // Walk up from the bottom while the lines keep a similar height
+  for (let end = bands.length - 1; end >= 1; end--) {
+    const group = [bands[end]];
+    for (let i = end - 1; i >= 0 && group.length < 3; i--) {
+      const reference = group[0].bottom - group[0].top + 1;
+      const candidate = bands[i].bottom - bands[i].top + 1;
+      const gap = group[group.length - 1].top - bands[i].bottom;
+      if (Math.abs(candidate - reference) > reference * 0.5 || gap > reference * 1.5) break;
+      group.push(bands[i]);
+    }
+    if (group.length >= 2) {
+      const top = group[group.length - 1].top, bottom = group[0].bottom;
+      const padding = Math.round((bottom - top) * 0.15);
+      const left = Math.min(...group.map((band) => band.left));
+      const right = Math.max(...group.map((band) => band.right));
+      const x = Math.max(0, left - padding), y = Math.max(0, top - padding);
+      return {
+        x,
+        y,
+        width: Math.min(width, right + padding + 1) - x,
+        height: Math.min(height, bottom + padding + 1) - y,
+      };
+    }
+  }
+  return null;
+}
+
+interface DetectedText {
+  rawValue: string;
+  boundingBox: DOMRectReadOnly;
+}
+
+interface TextDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedText[]>;
+}
+
+/**
+ * The browser's Shape Detection text detector, where available
+ */
+function builtInRecognizer(): MrzTextRecognizer | null {
+  const TextDetector = (globalThis as { TextDetector?: new () => TextDetectorLike }).TextDetector;
+  if (!TextDetector) return null;
+  return async (image) => {
+    const detections = await new TextDetector().detect(image);
+    return detections
+      .sort((a, b) => a.boundingBox.y - b.boundingBox.y)
+      .map((detection) => detection.rawValue)
+      .join('\n');
+  };
+}
+
+/**
+ * Locate, recognise and parse the MRZ of a document image
+ */
+export async function readMrz(
+  image: HTMLCanvasElement,
+  options: { recognizer?: MrzTextRecognizer; format?: MrzFormat } = {}
+): Promise<MrzReadResult> {
+  const recognize = options.recognizer ?? builtInRecognizer();
+  if (!recognize) return { status: 'unavailable' };
+
+  const ctx = image.getContext('2d');
+  if (!ctx) return { status: 'unavailable' };
+  const region = locateMrz(ctx.getImageData(0, 0, image.width, image.height));
+
+  let source = image;
+  if (region) {
+    // Upscale small crops; OCR needs roughly 20px+ per character line
+    const scale = Math.max(1, 1000 / region.width);
+    source = document.createElement('canvas');
+    source.width = Math.round(region.width * scale);
+    source.height = Math.round(region.height * scale);
+    source.getContext('2d')?.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, source.width, source.height);
+  }
+
+  let mrz: MrzResult | null = null;
+  try {
+    mrz = parseMrz(await recognize(source), options.format);
+    // The located band can be off (e.g. a barcode below the MRZ); retry on the whole image
+    if (!mrz && region) {
+      mrz = parseMrz(await recognize(image), options.format);
+    }
+  } catch (error) {
+    console.error('MRZ recognition failed:', error);
+  }
+  if (!mrz) return { status: 'unreadable' };
+  return mrz.valid ? { status: 'valid', mrz } : { status: 'invalid', mrz };
+}
@@ -0,0 +1,247 @@
+/**
+ * Session transports
+ * Pluggable channels that keep a desktop informed of a session progressing on mobile
+ */
+
+import type { KycApiService, SessionStatusResponse } from './kycApiService';
+import { KycError, KycErrorCode, toKycError } from './kycErrors';
+
+export type SessionStatusData = SessionStatusResponse['data'];
+
+export type SessionUpdate =
+  | { type: 'status'; data: SessionStatusData }
+  | { type: 'device_connected'; deviceType?: string };
+
+export interface SessionTransportHandlers {
+  onUpdate: (update: SessionUpdate) => void;
+  onError: (error: KycError) => void;
+}
+
+export interface SessionTransport {
+  start(handlers: SessionTransportHandlers): void;
+  stop(): void;
+  /**
+   * Ask for a fresh status right away, where the transport supports it
+   */
+  refresh?(): void;
+}
+
+export interface PollingTransportOptions {
+  /** First and minimum delay between polls in ms */
+  interval?: number;
+  /** Upper bound for the backoff delay in ms */
+  maxInterval?: number;
+  /** Factor applied to the delay while nothing changes or requests fail */
+  backoff?: number;
+}
+
+/**
+ * Parse a pushed message into a SessionUpdate. Accepts `{ type, ... }` events,
+ * a full status response or its bare `data` payload.
+ */
+export function parseSessionMessage(raw: string): SessionUpdate | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+
+  const value = message as Record<string, unknown>;
+  if (value.type === 'device_connected') {
+    return { type: 'device_connected', deviceType: value.deviceType as string | undefined };
+  }
+  if (value.type === 'status' && value.data && typeof value.data === 'object') {
+    return { type: 'status', data: value.data as SessionStatusData };
+  }
+  const data = (value.data && typeof value.data === 'object' ? value.data : value) as Partial<SessionStatusData>;
+  if (typeof data.status === 'string' && Array.isArray(data.completed_steps)) {
+    return { type: 'status', data: data as SessionStatusData };
+  }
+  return null;
+}
+
+/**
+ * Polls getSessionStatus, backing off while the status is unchanged and
+ * snapping back to the base interval as soon as it moves.
+ */
+export class PollingTransport implements SessionTransport {
+  private apiService: KycApiService;
+  private options: Required<PollingTransportOptions>;
+  private handlers: SessionTransportHandlers | null = null;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private delay: number;
+  private lastSnapshot = '';
+  private inFlight = false;
+
+  constructor(apiService: KycApiService, options: PollingTransportOptions = {}) {
+    this.apiService = apiService;
+    this.options = {
+      interval: options.interval ?? 2000,
+      maxInterval: options.maxInterval ?? 15000,
+      backoff: options.backoff ?? 1.5,
+    };
+    this.delay = this.options.interval;
+  }
+
+  start(handlers: SessionTransportHandlers): void {
+    this.stop();
+    this.handlers = handlers;
+    this.delay = this.options.interval;
+    this.lastSnapshot = '';
+    this.poll();
+  }
+
+  stop(): void {
+    this.handlers = null;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  refresh(): void {
+    if (!this.handlers || this.inFlight) return;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.delay = this.options.interval;
+    this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    this.inFlight = true;
+    try {
+      // Polling exists to see changes; never read the cache
+      const response = await this.apiService.getSessionStatus({ force: true });
+      const snapshot = JSON.stringify(response.data);
+      if (snapshot !== this.lastSnapshot) {
+        this.lastSnapshot = snapshot;
+        this.delay = this.options.interval;
+      } else {
+        this.delay = Math.min(this.delay * this.options.backoff, this.options.maxInterval);
+      }
+      if (this.handlers === handlers) {
+        handlers.onUpdate({ type: 'status', data: response.data });
+      }
+    } catch (error) {
+      this.delay = Math.min(this.delay * this.options.backoff, this.options.maxInterval);
+      if (this.handlers === handlers) {
+        handlers.onError(toKycError(error, 'status'));
+      }
+    } finally {
+      this.inFlight = false;
+    }
+
+    if (this.handlers === handlers) {
+      this.timerId = setTimeout(() => this.poll(), this.delay);
+    }
+  }
+}
+
+/**
+ * Server-Sent Events adapter. The endpoint should emit JSON messages
+ * understood by parseSessionMessage.
+ */
+export class EventSourceTransport implements SessionTransport {
+  private url: string;
+  private withCredentials: boolean;
+  private source: EventSource | null = null;
+
+  constructor(url: string, options: { withCredentials?: boolean } = {}) {
+    this.url = url;
+    this.withCredentials = options.withCredentials ?? true;
+  }
+
+  start(handlers: SessionTransportHandlers): void {
+    this.stop();
+    const source = new EventSource(this.url, { withCredentials: this.withCredentials });
+    source.onmessage = (event: MessageEvent<string>) => {
+      const update = parseSessionMessage(event.data);
+      if (update) handlers.onUpdate(update);
+    };
+    source.onerror = () => {
+      // EventSource reconnects on its own; only report when it gave up
+      if (source.readyState === EventSource.CLOSED) {
+        handlers.onError(new KycError('Session event stream closed', KycErrorCode.NETWORK_ERROR));
+      }
+    };
+    this.source = source;
+  }
+
+  stop(): void {
+    this.source?.close();
+    this.source = null;
+  }
+}
+
+/**
+ * WebSocket adapter with capped exponential reconnects. The socket should
+ * emit JSON messages understood by parseSessionMessage.
+ */
+export class WebSocketTransport implements SessionTransport {
+  private url: string;
+  private protocols?: string | string[];
+  private maxReconnectDelay: number;
+  private socket: WebSocket | null = null;
+  private reconnectId: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private stopped = true;
+
+  constructor(url: string, options: { protocols?: string | string[]; maxReconnectDelay?: number } = {}) {
+    this.url = url;
+    this.protocols = options.protocols;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+  }
+
+  start(handlers: SessionTransportHandlers): void {
+    this.stop();
+    this.stopped = false;
+    this.attempts = 0;
+    this.connect(handlers);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectId !== null) {
+      clearTimeout(this.reconnectId);
+      this.reconnectId = null;
+    }
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  refresh(): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'status' }));
+    }
+  }
+
+  private connect(handlers: SessionTransportHandlers): void {
+    const socket = new WebSocket(this.url, this.protocols);
+    socket.onopen = () => {
+      this.attempts = 0;
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      const update = parseSessionMessage(event.data);
+      if (update) handlers.onUpdate(update);
+    };
+    socket.onclose = () => {
+      if (this.stopped) return;
+      handlers.onError(new KycError('Session socket closed, reconnecting', KycErrorCode.NETWORK_ERROR));
+      const delay = Math.min(1000 * 2 ** this.attempts, this.maxReconnectDelay);
+      this.attempts += 1;
+      this.reconnectId = setTimeout(() => this.connect(handlers), delay);
+    };
+    this.socket = socket;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Offline upload queue
+ * Persists uploads that could not be sent so they survive reloads and go out once the device is back online
+ */
+
+import { KycAbortedError } from './kycErrors';
+
+export type UploadField =
+  | { name: string; value: string }
+  | { name: string; value: Blob; fileName: string };
+
+export interface QueuedUpload {
+  /** Idempotency key; every attempt sends the same one so the server applies the upload once */
+  id: string;
+  sessionId: string;
+  /** Endpoint under the session path, e.g. `face` or `docs` */
+  endpoint: 'face' | 'docs';
+  fields: UploadField[];
+  queuedAt: number;
+}
+
+const DB_NAME = 'astra-kyc-uploads';
+const DB_VERSION = 1;
+const STORE = 'uploads';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Holds at most one upload per session and endpoint; a newer one replaces it.
+ * Falls back to memory where IndexedDB is unavailable (e.g. some private modes).
+ */
+export class UploadQueue {
+  private dbName: string;
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, QueuedUpload>();
+
+  constructor(dbName = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: ['sessionId', 'endpoint'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    const db = await this.open();
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+  }
+
+  async put(upload: QueuedUpload): Promise<void> {
+    const store = await this.store('readwrite');
+    if (!store) {
+      this.memory.set(`${upload.sessionId}/${upload.endpoint}`, upload);
+      return;
+    }
+    await promisify(store.put(upload));
+  }
+
+  /**
+   * Remove the upload, unless a newer one has replaced it in the meantime
+   */
+  async remove(upload: QueuedUpload): Promise<void> {
+    const store = await this.store('readwrite');
+    if (!store) {
+      const key = `${upload.sessionId}/${upload.endpoint}`;
+      if (this.memory.get(key)?.id === upload.id) this.memory.delete(key);
+      return;
+    }
+    const key = [upload.sessionId, upload.endpoint];
+    const current = await promisify(store.get(key)) as QueuedUpload | undefined;
+    if (current?.id === upload.id) {
+      await promisify(store.delete(key));
+    }
+  }
+
+  /**
+   * Queued uploads, oldest first, optionally only those of one session
+   */
+  async list(sessionId?: string): Promise<QueuedUpload[]> {
+    const store = await this.store('readonly');
+    const uploads = store
+      ? await promisify(store.getAll()) as QueuedUpload[]
+      : [...this.memory.values()];
+    return uploads
+      .filter((upload) => sessionId === undefined || upload.sessionId === sessionId)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+}
+
+/**
+ * Resolve once the browser reports it is back online, or after `delay` ms when
+ * it already claims to be (the network can be down while `navigator.onLine` is true).
+ * Rejects with `KycAbortedError` when the signal aborts.
+ */
+export function waitForConnectivity(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new KycAbortedError());
+      return;
+    }
+    let timeoutId: number | null = null;
+    const cleanup = () => {
+      window.removeEventListener('online', onOnline);
+      signal?.removeEventListener('abort', onAbort);
+      if (timeoutId !== null) window.clearTimeout(timeoutId);
+    };
+    const onOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new KycAbortedError());
+    };
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', onAbort);
+    if (navigator.onLine !== false) {
+      timeoutId = window.setTimeout(onOnline, delay);
+    }
+  });
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
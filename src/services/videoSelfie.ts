@@ -0,0 +1,211 @@
+/**
+ * Video selfie
+ * Records short, bitrate-capped face videos with MediaRecorder and pulls still frames out of videos
+ */
+
+export interface VideoSelfieOptions {
+  /** Recording stops by itself after this long. Defaults to 5000ms. */
+  maxDurationMs?: number;
+  /** Target video bitrate. Defaults to 1 Mbps, about 600 KB for 5 s. */
+  videoBitsPerSecond?: number;
+}
+
+/**
+ * A moment in the recording, e.g. the start of a liveness challenge
+ */
+export interface VideoSelfieMarker {
+  label: string;
+  /** Milliseconds since the recording started */
+  atMs: number;
+}
+
+export interface VideoSelfie {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  markers: VideoSelfieMarker[];
+  /** True when the maximum length ended the recording rather than `stop` */
+  truncated: boolean;
+}
+
+/**
+ * Metadata describing an uploaded video, without the video itself
+ */
+export type VideoSelfieInfo = Omit<VideoSelfie, 'blob'>;
+
+const DEFAULT_MAX_DURATION_MS = 5000;
+const DEFAULT_VIDEO_BITS_PER_SECOND = 1_000_000;
+
+/**
+ * Defaults for recording a whole liveness check: long enough for a few challenges, at most ~1.3 MB
+ */
+export const LIVENESS_VIDEO_OPTIONS: Required<VideoSelfieOptions> = {
+  maxDurationMs: 20000,
+  videoBitsPerSecond: 500_000,
+};
+
+// Chrome and Firefox record WebM, Safari only MP4
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4;codecs=avc1', 'video/mp4'];
+
+/**
+ * First container the browser can record, null when MediaRecorder is missing
+ */
+export function videoSelfieMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  if (typeof MediaRecorder.isTypeSupported !== 'function') return '';
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+export function isVideoSelfieSupported(): boolean {
+  return videoSelfieMimeType() !== null;
+}
+
+/**
+ * File extension matching a recorded MIME type
+ */
+export function videoSelfieExtension(mimeType: string): string {
+  return mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+}
+
+/**
+ * Records one video at a time from a camera stream. Audio is never recorded.
+ */
+export class VideoSelfieRecorder {
+  readonly maxDurationMs: number;
+  private videoBitsPerSecond: number;
+  private recorder: MediaRecorder | null = null;
+  private timeoutId: number | null = null;
+  private startedAt = 0;
+  private markers: VideoSelfieMarker[] = [];
+  private limitReached = false;
+
+  constructor(options: VideoSelfieOptions = {}) {
+    this.maxDurationMs = options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+    this.videoBitsPerSecond = options.videoBitsPerSecond ?? DEFAULT_VIDEO_BITS_PER_SECOND;
+  }
+
+  get recording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Start recording `stream`. Resolves with the video once `stop` is called or
+   * the maximum length is reached, so a long session keeps only its beginning.
+   */
+  start(stream: MediaStream): Promise<VideoSelfie> {
+    const mimeType = videoSelfieMimeType();
+    if (mimeType === null) {
+      return Promise.reject(new Error('Video recording is not supported in this browser'));
+    }
+    if (this.recorder) {
+      return Promise.reject(new Error('A video selfie is already being recorded'));
+    }
+
+    const recorder = new MediaRecorder(new MediaStream(stream.getVideoTracks()), {
+      ...(mimeType ? { mimeType } : {}),
+      videoBitsPerSecond: this.videoBitsPerSecond,
+    });
+    this.recorder = recorder;
+    const chunks: Blob[] = [];
+    const markers: VideoSelfieMarker[] = [];
+    const startedAt = performance.now();
+    this.startedAt = startedAt;
+    this.markers = markers;
+    this.limitReached = false;
+
+    return new Promise<VideoSelfie>((resolve, reject) => {
+      recorder.addEventListener('dataavailable', (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      });
+      recorder.addEventListener('error', () => {
+        this.finish(recorder);
+        reject(new Error('Video recording failed'));
+      });
+      recorder.addEventListener('stop', () => {
+        const truncated = this.limitReached;
+        this.finish(recorder);
+        const type = recorder.mimeType || mimeType || 'video/webm';
+        const blob = new Blob(chunks, { type });
+        if (blob.size === 0) {
+          reject(new Error('Video recording produced no data'));
+          return;
+        }
+        resolve({ blob, mimeType: type, durationMs: Math.round(performance.now() - startedAt), markers, truncated });
+      });
+      recorder.start(1000);
+      this.timeoutId = window.setTimeout(() => {
+        this.limitReached = true;
+        this.stop();
+      }, this.maxDurationMs);
+    });
+  }
+
+  /**
+   * Tag the current moment of the recording. Ignored when not recording.
+   */
+  mark(label: string): void {
+    if (!this.recorder || this.recorder.state !== 'recording') return;
+    this.markers.push({ label, atMs: Math.round(performance.now() - this.startedAt) });
+  }
+
+  stop(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+  }
+
+  private finish(recorder: MediaRecorder) {
+    if (this.recorder !== recorder) return;
+    this.recorder = null;
+    if (this.timeoutId !== null) {
+      window.clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+}
+
+/**
+ * Draw the frame at `position` (0 = start, 1 = end) of a video file as a JPEG,
+ * e.g. for a video selfie picked from the camera app
+ */
+export function extractVideoFrame(video: Blob, position = 0.5, timeoutMs = 10000): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(video);
+    const element = document.createElement('video');
+    element.muted = true;
+    element.playsInline = true;
+    element.preload = 'auto';
+
+    const finish = (error: Error | null, blob?: Blob) => {
+      window.clearTimeout(timeoutId);
+      element.removeAttribute('src');
+      element.load();
+      URL.revokeObjectURL(url);
+      if (error) reject(error);
+      else resolve(blob as Blob);
+    };
+    const timeoutId = window.setTimeout(() => finish(new Error('Timed out reading the video')), timeoutMs);
+
+    element.addEventListener('error', () => finish(new Error('The video could not be read')));
+    element.addEventListener('loadedmetadata', () => {
+      // Some recordings report an infinite duration until played through; stay near the start then
+      const duration = Number.isFinite(element.duration) ? element.duration : 0;
+      element.currentTime = Math.min(Math.max(duration * position, 0.1), Math.max(duration - 0.1, 0));
+    });
+    element.addEventListener('seeked', () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = element.videoWidth;
+      canvas.height = element.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !canvas.width || !canvas.height) {
+        finish(new Error('The video has no picture'));
+        return;
+      }
+      ctx.drawImage(element, 0, 0);
+      canvas.toBlob((blob) => {
+        if (blob) finish(null, blob);
+        else finish(new Error('Could not read a frame from the video'));
+      }, 'image/jpeg', 0.92);
+    }, { once: true });
+
+    element.src = url;
+  });
+}
@@ -13,7 +13,7 @@ export default defineConfig(({ command, mode }) => {
       plugins: [
         react(),
         dts({
-          include: ['src/sdk/**/*.ts', 'src/components/**/*.tsx', 'src/contexts/**/*.tsx', 'src/services/kycApiService.ts'],
+          include: ['src/sdk/**/*.ts', 'src/components/**/*.tsx', 'src/contexts/**/*.tsx', 'src/services/kycApiService.ts', 'src/services/kycErrors.ts', 'src/services/kycSession.ts', 'src/services/sessionTransport.ts', 'src/services/faceQuality.ts', 'src/services/mediapipeAssets.ts', 'src/services/documentDetection.ts', 'src/services/documentAutoCapture.ts', 'src/services/documentTypes.ts', 'src/services/mrz.ts', 'src/services/aamva.ts', 'src/services/imageProcessing.ts', 'src/services/uploadQueue.ts', 'src/services/deviceIntegrity.ts', 'src/services/cameraManager.ts', 'src/services/livenessFallback.ts', 'src/services/videoSelfie.ts', 'src/services/liveness/**/*.ts'],
           outDir: 'dist',
           rollupTypes: true,
           tsconfigPath: './tsconfig.sdk.json',